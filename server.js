@@ -8,95 +8,127 @@ import fs from 'fs';
 import os from 'os';
 import path from 'path';
 import { generateClinicianNote, generatePatientFollowUp } from './server/utils/messageGenerator.js';
+import { generateSoapNote } from './server/utils/soapNote.js';
+import { normalizeSoapNote } from './shared/soapNote.js';
+import { createStorage, scheduleRetention } from './server/storage/index.js';
+import { createAuth } from './server/auth/index.js';
+import { parseLexicon, findDrugs, lookupDrug } from './shared/drugLexicon.js';
+import { parseDrugClasses } from './shared/drugClasses.js';
+import { createInteractionEngine, summarizeInteractions } from './server/interactions/index.js';
+import { compareInteractions, highestSeverity } from './shared/interactions.js';
+import { createSafetyRuleEngine } from './server/safety/index.js';
+import { createAllergyChecker } from './server/safety/allergies.js';
+import { createDuplicateTherapyChecker } from './server/safety/duplicates.js';
+import { normalizeProfile, parseConditions } from './shared/patientProfile.js';
+import { extractPatientProfile } from './server/patients/extractProfile.js';
+import { createSttService } from './server/stt/index.js';
+import { createLlmProvider } from './server/llm/index.js';
+import { summarizeToPopupFormat } from './server/drugs/popupSummary.js';
+import { evaluateDrugSafety } from './server/drugs/safetyEvaluation.js';
+import { createDrugInfoService, openLocalDrugData } from './server/drugs/index.js';
+import { createVisionProxy } from './server/vision/overshootProxy.js';
+import { rateLimitPerSession } from './server/utils/rateLimit.js';
 
 dotenv.config({ path: '.env.local' });
 
-// Temporary in-memory store for parsed PDF (text + extracted drugs)
-let storedPdf = { text: null, drugs: [] };
+// Durable store for parsed PDFs and visit sessions (SQLite by default, see server/storage)
+const storage = createStorage();
+scheduleRetention(storage);
+
+// Clinician logins + patient invite sessions (see server/auth)
+const auth = createAuth({ storage });
+
+// Server-side speech-to-text for browsers without Web Speech (see server/stt)
+const stt = await createSttService();
+const llm = createLlmProvider();
+const vision = createVisionProxy();
+// Offline drug labels, RxNorm and interactions when DRUG_DATA_SOURCE=local (see server/drugs/localDb.js)
+const drugDb = openLocalDrugData();
+const drugInfo = createDrugInfoService({ drugDb });
+
+// Drug names (generic, brand, misspellings) shared with the in-call STT detector
+const drugLexicon = parseLexicon(fs.readFileSync(new URL('./shared/drug-lexicon.txt', import.meta.url), 'utf8'));
+const drugClasses = parseDrugClasses(
+  fs.readFileSync(new URL('./shared/drug-classes.txt', import.meta.url), 'utf8'),
+  fs.readFileSync(new URL('./shared/drug-ingredients.txt', import.meta.url), 'utf8')
+);
+const conditions = parseConditions(fs.readFileSync(new URL('./shared/conditions.txt', import.meta.url), 'utf8'));
+
+// Drug–drug interactions from the local knowledge base, plus imported pairs in local mode
+const interactions = createInteractionEngine({
+  lexicon: drugLexicon,
+  classes: drugClasses,
+  lookupPair: drugDb ? (a, b) => drugDb.findInteraction(a, b) : undefined,
+});
+console.log(`[Interactions] Knowledge base ${interactions.version} (${interactions.size} entries)`);
+
+// Drug–allergy matching with cross-reactivity, used in-call and by the post-visit rules
+const allergies = createAllergyChecker({ lexicon: drugLexicon, classes: drugClasses });
+console.log(`[Allergies] Cross-reactivity table ${allergies.version} (${allergies.size} entries)`);
+
+// Duplicate therapy by shared ingredient or class, used in-call and by the post-visit rules
+const duplicates = createDuplicateTherapyChecker({ lexicon: drugLexicon, classes: drugClasses });
+console.log(`[Duplicates] Duplicate therapy table ${duplicates.version} (${duplicates.size} classes)`);
+
+// Class- and profile-based post-visit rules (server/safety/rules/*.json)
+const safetyRules = createSafetyRuleEngine({ lexicon: drugLexicon, classes: drugClasses, conditions, allergies, duplicates });
+console.log(`[Safety] ${safetyRules.size} rules from ${safetyRules.dir}`);
 
-// Session storage for visit data (in-memory Map)
-// Key: sessionId, Value: visit session data
-const visitSessions = new Map();
+const displayDrugName = (generic) => generic.charAt(0).toUpperCase() + generic.slice(1);
 
 /**
- * Heuristic extraction of likely drug names from medical text.
- * Looks for common drug suffixes and phrases like "X mg", "taking X".
+ * Extraction of drug names from medical text. Names in the shared lexicon are
+ * reported as their canonical generic ("Advil" → "Ibuprofen"); unknown drugs are
+ * caught heuristically by common suffixes and phrases like "X mg".
  */
 function extractDrugsFromText(text) {
   if (!text || typeof text !== 'string') return [];
   const seen = new Set();
   const drugs = [];
 
+  for (const { generic } of findDrugs(drugLexicon, text)) {
+    seen.add(generic);
+    drugs.push(displayDrugName(generic));
+  }
+
   // Common drug name suffixes (case-insensitive)
   const suffixRegex = /(?:^|[\s,;])([A-Z][a-zA-Z]*(?:olol|pril|cin|dipine|statin|cycline|mycin|prazole|formin|artan|azepam|oxetine|olone|ide|tide|dine|pine|done|tadine))(?=[\s,;.]|$)/gi;
   let m;
   while ((m = suffixRegex.exec(text)) !== null) {
     const name = m[1].trim();
-    if (name.length > 2 && !seen.has(name.toLowerCase())) {
-      seen.add(name.toLowerCase());
-      drugs.push(name);
-    }
+    // Lexicon names were already added above under their generic
+    if (lookupDrug(drugLexicon, name) || name.length <= 2 || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    drugs.push(name);
   }
 
   // Lines with "X mg", "X tablet", "X capsule", "X daily" — capture X
   const doseRegex = /(?:^|[\n])\s*([A-Z][a-zA-Z\-]+)\s+(?:\d+\s*)?(?:mg|mcg|mL|tablet|tablets|capsule|capsules|daily|twice|once)/gim;
   while ((m = doseRegex.exec(text)) !== null) {
     const name = m[1].trim();
-    if (name.length > 2 && !seen.has(name.toLowerCase())) {
-      seen.add(name.toLowerCase());
-      drugs.push(name);
-    }
+    // Lexicon names were already added above under their generic
+    if (lookupDrug(drugLexicon, name) || name.length <= 2 || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    drugs.push(name);
   }
 
   return drugs;
 }
 
 /**
- * Resolve drug name to RxCUI via RxNav (NIH). Returns null if not found.
+ * Check a new drug against existing ones using the local interaction knowledge
+ * base (see server/interactions). Returns an InteractionCheckResult
+ * (shared/interactions.d.ts): typed pairs, most severe first.
  */
-async function getRxcui(name) {
-  const res = await fetch(
-    `https://rxnav.nlm.nih.gov/REST/rxcui.json?name=${encodeURIComponent(name)}`
-  );
-  const json = await res.json();
-  const id = json?.idGroup?.rxnormId?.[0] || json?.idGroup?.rxnormId;
-  return id ? String(id) : null;
-}
-
-/**
- * Check interactions using RxNav API. Returns { hasConflict, details }.
- */
-async function checkInteractionsRxNav(newDrug, existingDrugs) {
-  const all = [newDrug, ...existingDrugs].filter(Boolean);
-  const rxcuis = [];
-  for (const d of all) {
-    const id = await getRxcui(d);
-    if (id) rxcuis.push(id);
-  }
-  if (rxcuis.length < 2) return { hasConflict: false, details: 'Insufficient drug data to check.', source: 'rxnav' };
-
-  const url = `https://rxnav.nlm.nih.gov/REST/interaction/list.json?rxcui=${rxcuis.join(',')}`;
-  const res = await fetch(url);
-  const json = await res.json();
-  const list = json?.fullInteractionTypeGroup || [];
-  const pairs = [];
-  for (const g of list) {
-    for (const t of g?.fullInteractionType || []) {
-      const names = (t?.interactionPair || []).map((p) => p?.interactionConcept?.[0]?.minConceptItem?.name).filter(Boolean);
-      if (names.length) pairs.push(names.join(' + '));
-    }
-  }
-  const hasConflict = pairs.length > 0;
-  const details = hasConflict
-    ? `Possible interaction(s): ${pairs.slice(0, 5).join('; ')}${pairs.length > 5 ? ' ...' : ''}`
-    : 'No known interactions found.';
-  return { hasConflict, details, source: 'rxnav' };
+function checkInteractions(newDrug, existingDrugs) {
+  return interactions.check(newDrug, existingDrugs);
 }
 
 /**
  * Optional: check via Browserbase scraping drugs.com. Use when BROWSERBASE_* are set.
  */
 async function checkInteractionsBrowserbase(newDrug, existingDrugs) {
+  if (drugDb) return null; // Air-gapped: no scraping
   const apiKey = process.env.BROWSERBASE_API_KEY;
   const projectId = process.env.BROWSERBASE_PROJECT_ID;
   if (!apiKey || !projectId) return null;
@@ -134,34 +166,56 @@ async function checkInteractionsBrowserbase(newDrug, existingDrugs) {
         const body = await driver.executeScript('return document.body.innerText;');
         if (/interaction|interact|contraindicated|moderate|major/i.test(body)) {
           const snippet = body.slice(0, 400).replace(/\s+/g, ' ').trim();
-          results.push(`${toCheck[i]} + ${toCheck[j]}: ${snippet}`);
+          // drugs.com labels each pair Major / Moderate / Minor
+          const grade = body.match(/\b(contraindicated|major|moderate|minor)\b/i)?.[1].toLowerCase() ?? 'moderate';
+          results.push({
+            drugs: [toCheck[i], toCheck[j]],
+            severity: grade,
+            mechanism: snippet,
+            management: 'See the drugs.com interaction page for management advice.',
+            source: url,
+          });
         }
       }
     }
 
     await driver.quit();
 
-    const hasConflict = results.length > 0;
-    const details = hasConflict
-      ? results.slice(0, 3).join(' | ')
-      : 'No interactions found (drugs.com).';
-    return { hasConflict, details, source: 'browserbase' };
+    results.sort(compareInteractions);
+    return {
+      hasConflict: results.length > 0,
+      severity: highestSeverity(results),
+      interactions: results,
+      details: results.length ? summarizeInteractions(results) : 'No interactions found (drugs.com).',
+      source: 'browserbase',
+    };
   } catch (e) {
     console.warn('Browserbase check failed:', e.message);
     return null;
   }
 }
 
-const createToken = async (role = 'doctor') => {
-  const roomName = 'quick-chat-room';
+/**
+ * Issue a LiveKit token bound to one appointment's room.
+ * Patients may publish audio/video but not data messages, so only the doctor
+ * side can broadcast `drug_detected` events into the room.
+ */
+const createToken = async (role, roomName) => {
   // Include role in identity for easy identification: "doctor-1234" or "patient-1234"
   const participantName = `${role}-${Math.floor(Math.random() * 10000)}`;
 
   const at = new AccessToken(process.env.LIVEKIT_API_KEY, process.env.LIVEKIT_API_SECRET, {
     identity: participantName,
     ttl: '24h',
+    attributes: { role },
+  });
+  at.addGrant({
+    roomJoin: true,
+    room: roomName,
+    canPublish: true,
+    canSubscribe: true,
+    canPublishData: role === 'doctor',
   });
-  at.addGrant({ roomJoin: true, room: roomName });
 
   return await at.toJwt();
 };
@@ -172,6 +226,7 @@ const port = parseInt(process.env.PORT || '3001', 10);
 
 app.use(cors());
 app.use(express.json());
+app.use(auth.loadSession);
 
 // API routes first so they are not handled by static
 app.get('/health', (req, res) => res.json({ ok: true, service: 'nexhacks-backend' }));
@@ -182,7 +237,57 @@ function isPdfReadError(err) {
   return /xref|formaterror|bad\s|password|encrypted|invalid|corrupt|malformed/.test(s);
 }
 
-app.post('/upload-pdf', upload.single('pdf'), async (req, res) => {
+// --- Auth ---
+
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { username, password } = req.body || {};
+    if (!username || !password) {
+      return res.status(400).json({ error: 'Missing username or password' });
+    }
+    const clinician = await auth.login(res, username, password);
+    if (!clinician) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    res.json({ role: 'doctor', username: clinician.username });
+  } catch (err) {
+    console.error('[Auth] Login error:', err);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Exchange a one-time invite token for a patient session bound to one appointment
+app.post('/api/auth/invite', async (req, res) => {
+  try {
+    const appointmentId = await auth.redeemInvite(res, req.body?.token);
+    if (!appointmentId) {
+      return res.status(401).json({ error: 'This invite link is invalid, expired or has already been used' });
+    }
+    res.json({ role: 'patient', appointmentId });
+  } catch (err) {
+    console.error('[Auth] Invite error:', err);
+    res.status(500).json({ error: 'Could not redeem invite' });
+  }
+});
+
+app.get('/api/auth/me', (req, res) => {
+  if (!req.auth) return res.status(401).json({ error: 'Not signed in' });
+  res.json({ role: req.auth.role, appointmentId: req.auth.appointmentId || null });
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    await auth.logout(req, res);
+    res.json({ ok: true });
+  } catch (err) {
+    console.error('[Auth] Logout error:', err);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// --- Patient records ---
+
+app.post('/upload-pdf', auth.requireRole('doctor'), upload.single('pdf'), async (req, res) => {
   try {
     if (!req.file?.buffer) {
       return res.status(400).json({ error: 'No PDF file provided' });
@@ -201,7 +306,7 @@ app.post('/upload-pdf', upload.single('pdf'), async (req, res) => {
     const require = createRequire(import.meta.url);
     const extract = require('pdf-text-extract');
 
-    extract(tmpPath, { splitPages: true }, (err, pages) => {
+    extract(tmpPath, { splitPages: true }, async (err, pages) => {
       // Clean up temp file regardless of success
       fs.promises.unlink(tmpPath).catch(() => {});
 
@@ -215,8 +320,26 @@ app.post('/upload-pdf', upload.single('pdf'), async (req, res) => {
 
       const text = Array.isArray(pages) ? pages.join('\n\n') : String(pages || '');
       const drugs = extractDrugsFromText(text || '');
-      storedPdf = { text: (text || '').slice(0, 50000), drugs };
-      return res.json({ ok: true, drugCount: drugs.length, drugs, text: storedPdf.text });
+      const profile = extractPatientProfile(text || '', { conditions });
+      try {
+        const record = await storage.createPatientRecord({
+          text: (text || '').slice(0, 50000),
+          drugs,
+          profile,
+          clinicianId: req.auth.clinicianId,
+        });
+        return res.json({
+          ok: true,
+          recordId: record.id,
+          drugCount: drugs.length,
+          drugs,
+          profile: record.profile,
+          text: record.text,
+        });
+      } catch (storeErr) {
+        console.error('PDF store error:', storeErr);
+        return res.status(500).json({ error: 'Failed to save parsed PDF' });
+      }
     });
   } catch (err) {
     console.error('PDF upload error:', err);
@@ -227,29 +350,105 @@ app.post('/upload-pdf', upload.single('pdf'), async (req, res) => {
   }
 });
 
-app.get('/api/pdf-status', (req, res) => {
-  res.json({
-    loaded: !!storedPdf.text,
-    drugCount: storedPdf.drugs?.length || 0,
-    drugs: storedPdf.drugs || [],
-  });
+/**
+ * Look up the patient record a request refers to, scoped to the caller: doctors
+ * only reach their own records, patients only the one on their appointment.
+ * Routes must never fall back to "whichever PDF was uploaded last" — that is
+ * another doctor's patient. Returns { record } (null when no recordId was sent)
+ * or { error, status }; another clinician's record is reported as not found.
+ */
+async function resolvePatientRecord(recordId, authSession) {
+  if (recordId === undefined || recordId === null || recordId === '') return { record: null };
+  if (typeof recordId !== 'string') return { error: 'Invalid recordId', status: 400 };
+  const record = await storage.getPatientRecord(recordId);
+  const appointment =
+    record && authSession?.role === 'patient' ? await storage.getAppointment(authSession.appointmentId) : null;
+  if (!auth.canAccessRecord(authSession, record, appointment)) {
+    return { error: 'Patient record not found or expired', status: 404 };
+  }
+  return { record };
+}
+
+// Doctor-entered profile for a visit without an uploaded PDF
+app.post('/api/records', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const record = await storage.createPatientRecord({
+      text: null,
+      drugs: [],
+      profile: normalizeProfile(req.body?.profile),
+      clinicianId: req.auth.clinicianId,
+    });
+    res.status(201).json({ recordId: record.id, profile: record.profile });
+  } catch (err) {
+    console.error('[Records] Create error:', err);
+    res.status(500).json({ error: 'Could not create patient record' });
+  }
 });
 
-app.post('/check-interactions', async (req, res) => {
+app.get('/api/records/:recordId/profile', auth.requireRole('doctor'), async (req, res) => {
   try {
-    const { newDrug } = req.body || {};
+    const { record, error, status } = await resolvePatientRecord(req.params.recordId, req.auth);
+    if (error) return res.status(status).json({ error });
+    res.json({ recordId: record.id, profile: record.profile });
+  } catch (err) {
+    console.error('[Records] Profile lookup error:', err);
+    res.status(500).json({ error: 'Could not load patient profile' });
+  }
+});
+
+// The doctor reviews and corrects the extracted profile before the visit
+app.put('/api/records/:recordId/profile', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const { error, status } = await resolvePatientRecord(req.params.recordId, req.auth);
+    if (error) return res.status(status).json({ error });
+    const record = await storage.updatePatientProfile(req.params.recordId, normalizeProfile(req.body?.profile));
+    if (!record) return res.status(404).json({ error: 'Patient record not found or expired' });
+    res.json({ recordId: record.id, profile: record.profile });
+  } catch (err) {
+    console.error('[Records] Profile update error:', err);
+    res.status(500).json({ error: 'Could not save patient profile' });
+  }
+});
+
+app.get('/api/pdf-status', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const { recordId } = req.query;
+    if (!recordId) {
+      return res.status(400).json({ error: 'Missing recordId' });
+    }
+    const { record, error, status } = await resolvePatientRecord(recordId, req.auth);
+    if (error) return res.status(status).json({ error });
+    res.json({
+      recordId: record.id,
+      loaded: !!record?.text,
+      drugCount: record?.drugs?.length || 0,
+      drugs: record?.drugs || [],
+    });
+  } catch (err) {
+    console.error('pdf-status error:', err);
+    res.status(500).json({ error: 'Failed to read PDF status' });
+  }
+});
+
+app.post('/check-interactions', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const { newDrug, recordId } = req.body || {};
     if (!newDrug || typeof newDrug !== 'string') {
       return res.status(400).json({ error: 'Missing newDrug' });
     }
-    const existingDrugs = storedPdf.drugs || [];
+    const { record, error, status } = await resolvePatientRecord(recordId, req.auth);
+    if (error) return res.status(status).json({ error });
+    const existingDrugs = record?.drugs || [];
 
-    let result = await checkInteractionsBrowserbase(newDrug, existingDrugs);
-    if (!result) result = await checkInteractionsRxNav(newDrug, existingDrugs);
+    // drugs.com scraping (when configured) only gets a say when the knowledge base finds nothing
+    let result = checkInteractions(newDrug, existingDrugs);
+    if (!result.hasConflict) result = (await checkInteractionsBrowserbase(newDrug, existingDrugs)) || result;
 
     res.json({
       ...result,
       checked: {
         newDrug,
+        recordId: record?.id || null,
         existingDrugs,
         count: existingDrugs.length,
       },
@@ -258,6 +457,8 @@ app.post('/check-interactions', async (req, res) => {
     console.error('check-interactions error:', err);
     res.status(500).json({
       hasConflict: false,
+      severity: null,
+      interactions: [],
       details: 'Conflict check failed. Please verify manually.',
       source: 'error',
       error: String(err?.message || err),
@@ -265,11 +466,124 @@ app.post('/check-interactions', async (req, res) => {
   }
 });
 
-app.get('/getToken', async (req, res) => {
+// In-call allergy check for a drug the doctor just mentioned, against the visit record's profile
+app.post('/api/allergies/check', auth.requireRole('doctor'), async (req, res) => {
   try {
-    // Get role from query parameter, default to 'doctor' for backward compatibility
-    const role = req.query.role === 'patient' ? 'patient' : 'doctor';
-    const token = await createToken(role);
+    const { drug, recordId } = req.body || {};
+    if (!drug || typeof drug !== 'string') {
+      return res.status(400).json({ error: 'Missing drug' });
+    }
+    const { record, error, status } = await resolvePatientRecord(recordId, req.auth);
+    if (error) return res.status(status).json({ error });
+    const documented = record?.profile?.allergies || [];
+    const matches = allergies.check(drug, documented);
+    res.json({
+      drug,
+      hasConflict: matches.length > 0,
+      severity: matches[0]?.severity ?? null,
+      matches,
+      allergies: documented,
+      version: allergies.version,
+    });
+  } catch (err) {
+    console.error('[Allergies] Check error:', err);
+    res.status(500).json({ error: 'Allergy check failed. Please verify manually.' });
+  }
+});
+
+// In-call duplicate therapy check for a drug the doctor just mentioned, against the record's
+// medications and the drugs already prescribed in this call
+app.post('/api/duplicates/check', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const { drug, recordId } = req.body || {};
+    if (!drug || typeof drug !== 'string') {
+      return res.status(400).json({ error: 'Missing drug' });
+    }
+    const { record, error, status } = await resolvePatientRecord(recordId, req.auth);
+    if (error) return res.status(status).json({ error });
+    const prescribed = (Array.isArray(req.body.prescribed) ? req.body.prescribed : []).map(String);
+    const discontinued = new Set((Array.isArray(req.body.discontinued) ? req.body.discontinued : []).map(d => String(d).toLowerCase()));
+    const existing = (record?.drugs || []).filter(d => !discontinued.has(String(d).toLowerCase()));
+    const found = duplicates
+      .check({ prescribed: [drug, ...prescribed], existing })
+      .filter((duplicate) => duplicate.drugs.includes(drug));
+    res.json({
+      drug,
+      hasConflict: found.length > 0,
+      severity: found[0]?.severity ?? null,
+      duplicates: found,
+      version: duplicates.version,
+    });
+  } catch (err) {
+    console.error('[Duplicates] Check error:', err);
+    res.status(500).json({ error: 'Duplicate therapy check failed. Please verify manually.' });
+  }
+});
+
+// --- Appointments ---
+
+const inviteUrl = (req, token) => `${req.protocol}://${req.get('host')}/?invite=${encodeURIComponent(token)}`;
+
+// Create an appointment with its own LiveKit room. The patient joins via the
+// returned one-time invite link.
+app.post('/api/appointments', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const { recordId } = req.body || {};
+    const { record, error, status } = await resolvePatientRecord(recordId, req.auth);
+    if (error) return res.status(status).json({ error });
+    const appointment = await storage.createAppointment({ recordId: record?.id || null, clinicianId: req.auth.clinicianId });
+    res.status(201).json({
+      appointmentId: appointment.id,
+      recordId: appointment.recordId,
+      createdAt: appointment.createdAt,
+      inviteUrl: inviteUrl(req, auth.createInvite(appointment.id)),
+    });
+  } catch (err) {
+    console.error('[Appointments] Create error:', err);
+    res.status(500).json({ error: 'Could not create appointment' });
+  }
+});
+
+// Issue a fresh invite link (each link can only be redeemed once)
+app.post('/api/appointments/:appointmentId/invites', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const appointment = await storage.getAppointment(req.params.appointmentId);
+    if (!appointment || !auth.canAccessAppointment(req.auth, appointment)) {
+      return res.status(404).json({ error: 'Appointment not found or expired' });
+    }
+    res.status(201).json({ inviteUrl: inviteUrl(req, auth.createInvite(appointment.id)) });
+  } catch (err) {
+    console.error('[Appointments] Invite error:', err);
+    res.status(500).json({ error: 'Could not create invite' });
+  }
+});
+
+app.get('/api/appointments/:appointmentId', auth.requireRole('doctor', 'patient'), async (req, res) => {
+  try {
+    const appointment = await storage.getAppointment(req.params.appointmentId);
+    if (!appointment || !auth.canAccessAppointment(req.auth, appointment)) {
+      return res.status(404).json({ error: 'Appointment not found or expired' });
+    }
+    res.json({ appointmentId: appointment.id, recordId: appointment.recordId, createdAt: appointment.createdAt });
+  } catch (err) {
+    console.error('[Appointments] Lookup error:', err);
+    res.status(500).json({ error: 'Could not load appointment' });
+  }
+});
+
+app.get('/getToken', auth.requireRole('doctor', 'patient'), async (req, res) => {
+  try {
+    // Patients are bound to the appointment their invite was for
+    const appointmentId = req.auth.role === 'patient' ? req.auth.appointmentId : req.query.appointmentId;
+    if (!appointmentId || typeof appointmentId !== 'string') {
+      return res.status(400).send('Missing appointmentId');
+    }
+    const appointment = await storage.getAppointment(appointmentId);
+    if (!appointment || !auth.canAccessAppointment(req.auth, appointment)) {
+      return res.status(404).send('Appointment not found or expired');
+    }
+    // Role comes from the signed-in session, never from the query string
+    const token = await createToken(req.auth.role, appointment.roomName);
     res.send(token);
   } catch (err) {
     console.error(err);
@@ -279,79 +593,83 @@ app.get('/getToken', async (req, res) => {
 
 // Post-visit safety check endpoint
 
-app.post('/post-visit-safety-check', async (req, res) => {
+app.post('/post-visit-safety-check', auth.requireRole('doctor', 'patient'), async (req, res) => {
   try {
-    const { sessionId, prescriptions, patientHistory, role } = req.body;
+    const { sessionId, prescriptions, patientHistory } = req.body;
+    const role = req.auth.role;
 
-    if (!sessionId || !prescriptions || !Array.isArray(prescriptions)) {
+    if (!sessionId || typeof sessionId !== 'string' || !prescriptions || !Array.isArray(prescriptions)) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    // A re-run may only update the caller's own visit, never someone else's with the same ID
+    const existing = await storage.getVisitSession(sessionId);
+    if (existing && (!canAccessVisit(req.auth, existing) || existing.role !== role)) {
+      return res.status(404).json({ error: 'Visit session not found' });
+    }
+
+    // Tie the visit to an appointment the caller may access; patients cannot pick another one
+    const appointmentId = role === 'patient' ? req.auth.appointmentId : req.body.appointmentId;
+    const appointment = appointmentId ? await storage.getAppointment(appointmentId) : null;
+    if (appointmentId && !auth.canAccessAppointment(req.auth, appointment)) {
+      return res.status(404).json({ error: 'Appointment not found or expired' });
+    }
+
+    // Patients never send record IDs; they inherit the one attached to their appointment
+    const recordId = role === 'patient' ? appointment?.recordId : req.body.recordId;
+    const { record, error, status } = await resolvePatientRecord(recordId, req.auth);
+    if (error) return res.status(status).json({ error });
+
     console.log(`[Post-Visit] Safety check for session ${sessionId}`);
     console.log(`[Post-Visit] Prescriptions: ${prescriptions.length}`);
     console.log(`[Post-Visit] Patient history: ${patientHistory?.length || 0} drugs`);
 
-    // Get patient history from stored PDF
-    const existingDrugs = storedPdf.drugs || [];
-    const allPatientDrugs = [...existingDrugs, ...(patientHistory || [])];
+    // Get patient history from this visit's uploaded PDF (if any)
+    const existingDrugs = record?.drugs || [];
+    // Drugs the doctor told the patient to stop no longer count towards interactions
+    const discontinued = new Set((Array.isArray(req.body.discontinued) ? req.body.discontinued : []).map(d => String(d).toLowerCase()));
+    const allPatientDrugs = [...existingDrugs, ...(patientHistory || [])].filter(d => !discontinued.has(String(d).toLowerCase()));
 
     // Perform safety checks
     const safetyCheck = {
       sessionId,
+      recordId: record?.id || null,
       prescriptions,
       patientHistory: allPatientDrugs,
+      discontinued: [...discontinued],
+      patientProfile: record?.profile || null,
       interactions: [],
       risks: [],
     };
 
-    // Check for ACE inhibitor + NSAID combination (renal risk)
-    const aceInhibitors = prescriptions.filter(p => 
-      p.drug.toLowerCase().includes('lisinopril') ||
-      p.drug.toLowerCase().includes('ace') ||
-      p.drug.toLowerCase().includes('pril')
+    // Class- and profile-based rules (renal, allergy, disease, age, pregnancy...) over this visit's prescriptions
+    safetyCheck.risks.push(
+      ...safetyRules.evaluate({ prescriptions, existingDrugs: allPatientDrugs, patient: safetyCheck.patientProfile })
     );
-    
-    const nsaids = prescriptions.filter(p => 
-      p.drug.toLowerCase().includes('naproxen') ||
-      p.drug.toLowerCase().includes('ibuprofen') ||
-      p.drug.toLowerCase().includes('nsaid')
-    );
-
-    if (aceInhibitors.length > 0 && nsaids.length > 0) {
-      safetyCheck.risks.push({
-        type: 'renal_risk',
-        description: 'ACE inhibitor + NSAID combination may increase renal risk',
-        drugs: [aceInhibitors[0].drug, nsaids[0].drug],
-      });
-    }
 
-    // Check for interactions with existing medications
+    // Check for interactions with existing medications (typed pairs, most severe first)
     for (const prescription of prescriptions) {
       if (allPatientDrugs.length > 0) {
         try {
-          const interactionResult = await checkInteractionsRxNav(
-            prescription.drug,
-            allPatientDrugs
-          );
-          if (interactionResult.hasConflict) {
-            safetyCheck.interactions.push({
-              drug: prescription.drug,
-              interaction: interactionResult.details,
-            });
-          }
+          safetyCheck.interactions.push(...checkInteractions(prescription.drug, allPatientDrugs).interactions);
         } catch (e) {
           console.warn(`Interaction check failed for ${prescription.drug}:`, e);
         }
       }
     }
+    safetyCheck.interactions.sort(compareInteractions);
 
     // Generate messages
     const clinicianNote = generateClinicianNote(safetyCheck);
     const patientFollowUp = generatePatientFollowUp(safetyCheck);
 
-    // Store visit session with safety check results
+    // Store visit session with safety check results; a re-run keeps the saved notes and the owner
     const visitData = {
+      ...existing,
       sessionId,
+      appointmentId: existing ? existing.appointmentId : appointment?.id || null,
+      clinicianId: existing ? existing.clinicianId : appointment?.clinicianId || req.auth.clinicianId || null,
+      recordId: record?.id || null,
       startTime: Date.now() - 3600000, // Approximate (would be from actual visit)
       endTime: Date.now(),
       prescriptions,
@@ -359,11 +677,11 @@ app.post('/post-visit-safety-check', async (req, res) => {
       safetyCheck,
       clinicianNote,
       patientFollowUp,
-      role: role || 'patient',
-      createdAt: Date.now(),
+      role,
+      createdAt: existing?.createdAt ?? Date.now(),
     };
 
-    visitSessions.set(sessionId, visitData);
+    await storage.saveVisitSession(visitData);
 
     console.log(`[Post-Visit] Safety check complete for ${sessionId}`);
     console.log(`[Post-Visit] Clinician note: ${clinicianNote.substring(0, 100)}...`);
@@ -385,13 +703,21 @@ app.post('/post-visit-safety-check', async (req, res) => {
   }
 });
 
+/** Doctors see their own visits; patients only visits from their appointment. */
+function canAccessVisit(authSession, visitData) {
+  if (!visitData) return false;
+  return authSession.role === 'doctor'
+    ? !visitData.clinicianId || visitData.clinicianId === authSession.clinicianId
+    : !!visitData.appointmentId && visitData.appointmentId === authSession.appointmentId;
+}
+
 // Get visit summary by session ID
-app.get('/visit-summary/:sessionId', async (req, res) => {
+app.get('/visit-summary/:sessionId', auth.requireRole('doctor', 'patient'), async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const visitData = visitSessions.get(sessionId);
+    const visitData = await storage.getVisitSession(sessionId);
 
-    if (!visitData) {
+    if (!canAccessVisit(req.auth, visitData)) {
       return res.status(404).json({ error: 'Visit session not found' });
     }
 
@@ -402,8 +728,87 @@ app.get('/visit-summary/:sessionId', async (req, res) => {
   }
 });
 
-// POST /summarize-transcript - Generate meeting summary using Gemini
-app.post('/summarize-transcript', express.json(), async (req, res) => {
+const MAX_SUMMARY_LENGTH = 20000;
+
+// PUT /visit-summary/:sessionId/transcript-summary - Save the doctor-reviewed transcript summary with the visit
+app.put('/visit-summary/:sessionId/transcript-summary', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { text, generatedAt, edited } = req.body || {};
+    if (typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ error: 'Summary text is required' });
+    }
+    if (text.length > MAX_SUMMARY_LENGTH) {
+      return res.status(413).json({ error: 'Summary is too long' });
+    }
+
+    const visitData = await storage.getVisitSession(sessionId);
+    if (!canAccessVisit(req.auth, visitData)) {
+      return res.status(404).json({ error: 'Visit session not found' });
+    }
+
+    const transcriptSummary = {
+      text: text.trim(),
+      generatedAt: Number.isFinite(generatedAt) ? generatedAt : null,
+      edited: !!edited,
+      savedAt: Date.now(),
+    };
+    await storage.saveVisitSession({ ...visitData, transcriptSummary });
+
+    console.log(`[Summarize] Saved summary for ${sessionId} (${transcriptSummary.text.length} chars)`);
+    res.json({ transcriptSummary });
+  } catch (err) {
+    console.error('[Summarize] Save error:', err);
+    res.status(500).json({ error: 'Failed to save summary' });
+  }
+});
+
+// POST /visit-summary/:sessionId/soap-note - Draft a SOAP note from the transcript and the visit's prescriptions
+app.post('/visit-summary/:sessionId/soap-note', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const transcript = typeof req.body?.transcript === 'string' ? req.body.transcript : '';
+
+    const visitData = await storage.getVisitSession(sessionId);
+    if (!canAccessVisit(req.auth, visitData)) {
+      return res.status(404).json({ error: 'Visit session not found' });
+    }
+
+    const soapNote = await generateSoapNote({ transcript, visit: visitData, llm });
+    console.log(`[SOAP] Generated ${soapNote.source} note for ${sessionId}`);
+    res.json({ soapNote });
+  } catch (err) {
+    console.error('[SOAP] Error:', err);
+    res.status(500).json({ error: 'Failed to generate SOAP note' });
+  }
+});
+
+// PUT /visit-summary/:sessionId/soap-note - Save the doctor-reviewed SOAP note with the visit
+app.put('/visit-summary/:sessionId/soap-note', auth.requireRole('doctor'), async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    if (!req.body || typeof req.body !== 'object') {
+      return res.status(400).json({ error: 'SOAP note is required' });
+    }
+
+    const visitData = await storage.getVisitSession(sessionId);
+    if (!canAccessVisit(req.auth, visitData)) {
+      return res.status(404).json({ error: 'Visit session not found' });
+    }
+
+    const soapNote = { ...normalizeSoapNote(req.body), savedAt: Date.now() };
+    await storage.saveVisitSession({ ...visitData, soapNote });
+
+    console.log(`[SOAP] Saved note for ${sessionId}`);
+    res.json({ soapNote });
+  } catch (err) {
+    console.error('[SOAP] Save error:', err);
+    res.status(500).json({ error: 'Failed to save SOAP note' });
+  }
+});
+
+// POST /summarize-transcript - Generate meeting summary with the configured LLM
+app.post('/summarize-transcript', auth.requireRole('doctor'), express.json(), async (req, res) => {
   try {
     const { transcript } = req.body;
     
@@ -414,10 +819,8 @@ app.post('/summarize-transcript', express.json(), async (req, res) => {
       return res.status(400).json({ error: 'No transcript provided' });
     }
 
-    const GEMINI_API_KEY = process.env.VITE_GEMINI_API_KEY;
-    
-    if (!GEMINI_API_KEY) {
-      console.warn('[Summarize] No GEMINI_API_KEY found, using basic summarization');
+    if (!llm) {
+      console.warn('[Summarize] No LLM provider configured, using basic summarization');
       // Fallback: simple summarization (first few lines)
       const lines = transcript.split('\n').filter(l => l.trim());
       const summary = lines.length <= 3 
@@ -426,15 +829,7 @@ app.post('/summarize-transcript', express.json(), async (req, res) => {
       return res.json({ summary });
     }
 
-    try {
-      // Use Google Gemini API
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-      
-      // Use gemini-pro (standard free model)
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-      
-      const prompt = `You are analyzing a medical consultation transcript between a doctor and patient.
+    const prompt = `You are analyzing a medical consultation transcript between a doctor and patient.
 
 IMPORTANT CONTEXT:
 - This transcript was created using voice-to-text speech recognition
@@ -454,28 +849,150 @@ Please provide a concise medical summary that includes:
 
 Provide a clear, professional summary suitable for medical records.`;
 
-      console.log('[Summarize] Sending to Gemini...');
-      
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const summary = response.text() || 'Summary generation failed';
-      
-      console.log('[Summarize] Gemini response received, length:', summary.length);
-      
-      res.json({ summary });
-    } catch (geminiError) {
-      console.error('[Summarize] Gemini error:', geminiError);
-      throw geminiError;
-    }
+    console.log(`[Summarize] Sending to ${llm.name}...`);
+    const summary = (await llm.complete({ prompt })) || 'Summary generation failed';
+    console.log(`[Summarize] ${llm.name} response received, length:`, summary.length);
+
+    res.json({ summary });
   } catch (err) {
     console.error('[Summarize] Error:', err);
     res.status(500).json({ error: 'Failed to generate summary' });
   }
 });
 
+// --- Server-side speech-to-text ---
+
+app.get('/api/stt/config', auth.requireRole('doctor', 'patient'), (req, res) => {
+  res.json({ available: !!stt.engineName, engine: stt.engineName, sampleRate: stt.sampleRate });
+});
+
+app.post('/api/stt/sessions', auth.requireRole('doctor', 'patient'), (req, res) => {
+  const sessionId = stt.open(req.auth.idHash);
+  if (!sessionId) return res.status(503).json({ error: 'Server-side speech recognition is not available' });
+  res.json({ sessionId, sampleRate: stt.sampleRate });
+});
+
+// Body: raw PCM16 mono little-endian at stt.sampleRate
+app.post(
+  '/api/stt/sessions/:id/audio',
+  auth.requireRole('doctor', 'patient'),
+  express.raw({ type: 'application/octet-stream', limit: '1mb' }),
+  async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0 || req.body.length % 2 !== 0) {
+        return res.status(400).json({ error: 'Expected PCM16 audio' });
+      }
+      const results = await stt.write(req.params.id, req.auth.idHash, req.body);
+      if (!results) return res.status(404).json({ error: 'STT session not found or expired' });
+      res.json({ results });
+    } catch (err) {
+      console.error('[STT] Recognition error:', err);
+      res.status(500).json({ error: 'Speech recognition failed' });
+    }
+  }
+);
+
+app.delete('/api/stt/sessions/:id', auth.requireRole('doctor', 'patient'), async (req, res) => {
+  try {
+    const results = await stt.close(req.params.id, req.auth.idHash);
+    if (!results) return res.status(404).json({ error: 'STT session not found or expired' });
+    res.json({ results });
+  } catch (err) {
+    console.error('[STT] Failed to close session:', err);
+    res.status(500).json({ error: 'Speech recognition failed' });
+  }
+});
+
+// --- Drug popup summaries and safety evaluation (LLM keys stay on the server) ---
+
+const drugLlmLimit = rateLimitPerSession({ name: 'drug LLM', max: Number(process.env.DRUG_LLM_RATE_LIMIT || 30) });
+
+app.post('/api/drugs/summarize', auth.requireRole('doctor', 'patient'), drugLlmLimit, async (req, res) => {
+  try {
+    const { drugData } = req.body || {};
+    if (!drugData || typeof drugData !== 'object') {
+      return res.status(400).json({ error: 'drugData is required' });
+    }
+    res.json(await summarizeToPopupFormat(drugData, llm));
+  } catch (err) {
+    console.error('[Drug summary] Error:', err);
+    res.status(500).json({ error: 'Failed to summarize drug information' });
+  }
+});
+
+// Label lookups are cached server-side, so they share no rate limit with the LLM routes
+app.get('/api/drugs/:name', auth.requireRole('doctor', 'patient'), async (req, res) => {
+  try {
+    const data = await drugInfo.getDrugInfo(req.params.name, { route: req.query.route });
+    if (!data) return res.status(400).json({ error: 'Invalid drug name' });
+    res.json(data);
+  } catch (err) {
+    console.error('[Drugs] Label lookup failed:', err.message);
+    res.status(502).json({ error: 'Drug information unavailable' });
+  }
+});
+
+app.post('/api/drugs/safety', auth.requireRole('doctor', 'patient'), drugLlmLimit, async (req, res) => {
+  try {
+    const { drugName, drugData, patient } = req.body || {};
+    if (!drugName || typeof drugName !== 'string') {
+      return res.status(400).json({ error: 'drugName is required' });
+    }
+    const patientInfo = patient || { drugs: [] };
+    const known = checkInteractions(drugName, Array.isArray(patientInfo.drugs) ? patientInfo.drugs : []);
+    res.json(await evaluateDrugSafety(drugName, drugData || {}, patientInfo, llm, known.interactions));
+  } catch (err) {
+    console.error('[Safety] Error:', err);
+    res.status(500).json({ error: 'Safety check unavailable' });
+  }
+});
+
+// --- Realtime vision (Overshoot) proxy ---
+
+const visionStreamLimit = rateLimitPerSession({ name: 'vision streams', max: Number(process.env.VISION_RATE_LIMIT || 5) });
+
+app.get('/api/vision/config', auth.requireRole('doctor', 'patient'), (req, res) => {
+  res.json({ available: vision.available });
+});
+
+app.post('/api/vision/streams', auth.requireRole('doctor', 'patient'), visionStreamLimit, async (req, res) => {
+  if (!vision.available) return res.status(503).json({ error: 'Realtime vision is not configured' });
+  try {
+    const { status, data } = await vision.createStream(req.auth.idHash, req.body);
+    res.status(status).json(data);
+  } catch (err) {
+    console.error('[Vision] Failed to create stream:', err);
+    res.status(502).json({ error: 'Vision service unavailable' });
+  }
+});
+
+app.post('/api/vision/streams/:id/keepalive', auth.requireRole('doctor', 'patient'), async (req, res) => {
+  try {
+    const result = await vision.keepalive(req.auth.idHash, req.params.id);
+    if (!result) return res.status(404).json({ error: 'Stream not found' });
+    res.status(result.status).json(result.data);
+  } catch (err) {
+    console.error('[Vision] Keepalive failed:', err);
+    res.status(502).json({ error: 'Vision service unavailable' });
+  }
+});
+
 // SPA and static files last
 app.use(express.static('dist'));
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`Server listening on port ${port} (backend for PDF/LiveKit/conflict-check)`);
 });
+
+// Vision results arrive over a WebSocket; authenticate the upgrade with the session cookie
+vision.attach(server, (req) => new Promise((resolve, reject) => {
+  auth.loadSession(req, null, (err) => (err ? reject(err) : resolve(req.auth)));
+}));
+
+// Close the store cleanly so SQLite checkpoints its WAL before exit
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => {
+    server.close();
+    Promise.allSettled([stt.shutdown(), storage.close()]).finally(() => process.exit(0));
+  });
+}
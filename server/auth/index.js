@@ -0,0 +1,140 @@
+/**
+ * Cookie-based authentication for clinicians (username/password) and patients
+ * (signed one-time invite links). Sessions live in the storage layer, keyed by
+ * the sha256 of the cookie value.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { hashPassword, verifyPassword } from './passwords.js';
+import { createInviteToken, verifyInviteToken } from './invites.js';
+
+export { hashPassword } from './passwords.js';
+
+const COOKIE_NAME = 'nexhacks_session';
+const HOUR_MS = 60 * 60 * 1000;
+
+const hashSessionId = (id) => createHash('sha256').update(id).digest('hex');
+
+function parseCookies(header) {
+  const cookies = {};
+  for (const part of String(header || '').split(';')) {
+    const idx = part.indexOf('=');
+    if (idx < 0) continue;
+    const key = part.slice(0, idx).trim();
+    if (!key) continue;
+    try {
+      cookies[key] = decodeURIComponent(part.slice(idx + 1).trim());
+    } catch {
+      cookies[key] = part.slice(idx + 1).trim();
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Build auth helpers bound to a store. Options fall back to env:
+ * AUTH_SECRET, AUTH_SESSION_HOURS (default 12), INVITE_TTL_HOURS (default 24),
+ * COOKIE_SECURE ("true" forces the Secure flag; default on when NODE_ENV=production).
+ * @param {{ storage: import('../storage/index.js').Storage }} options
+ */
+export function createAuth({ storage, ...options }) {
+  let secret = options.secret || process.env.AUTH_SECRET;
+  if (!secret) {
+    secret = randomBytes(32).toString('hex');
+    console.warn('[Auth] AUTH_SECRET is not set; using a random secret. Patient invite links will stop working after a restart.');
+  }
+  const sessionTtlMs = Number(options.sessionHours ?? process.env.AUTH_SESSION_HOURS ?? 12) * HOUR_MS;
+  const inviteTtlMs = Number(options.inviteHours ?? process.env.INVITE_TTL_HOURS ?? 24) * HOUR_MS;
+  const secureCookies =
+    options.secureCookies ?? (process.env.COOKIE_SECURE ? process.env.COOKIE_SECURE === 'true' : process.env.NODE_ENV === 'production');
+
+  // Verified against when the username is unknown, so timing does not reveal which usernames exist.
+  const dummyHash = hashPassword(randomBytes(16).toString('hex'));
+
+  const setSessionCookie = (res, value, maxAgeMs) => {
+    res.cookie(COOKIE_NAME, value, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: secureCookies,
+      path: '/',
+      maxAge: maxAgeMs,
+    });
+  };
+
+  const startSession = async (res, { role, clinicianId = null, appointmentId = null }) => {
+    const id = randomBytes(32).toString('base64url');
+    const expiresAt = Date.now() + sessionTtlMs;
+    await storage.createAuthSession({ idHash: hashSessionId(id), role, clinicianId, appointmentId, expiresAt });
+    setSessionCookie(res, id, sessionTtlMs);
+  };
+
+  return {
+    /** Express middleware: attaches req.auth (AuthSession or null). */
+    async loadSession(req, res, next) {
+      try {
+        const id = parseCookies(req.headers.cookie)[COOKIE_NAME];
+        req.auth = id ? await storage.getAuthSession(hashSessionId(id)) : null;
+        next();
+      } catch (err) {
+        next(err);
+      }
+    },
+
+    /** Express middleware factory: 401 without a session, 403 for other roles. */
+    requireRole(...roles) {
+      return (req, res, next) => {
+        if (!req.auth) return res.status(401).json({ error: 'Not signed in' });
+        if (!roles.includes(req.auth.role)) return res.status(403).json({ error: 'Not allowed for this role' });
+        next();
+      };
+    },
+
+    /** Doctors may use appointments they created; patients only the one their invite was for. */
+    canAccessAppointment(auth, appointment) {
+      if (!auth || !appointment) return false;
+      if (auth.role === 'doctor') return !appointment.clinicianId || appointment.clinicianId === auth.clinicianId;
+      return auth.appointmentId === appointment.id;
+    },
+
+    /**
+     * Doctors may use patient records they uploaded or entered; patients only the
+     * record attached to their own appointment.
+     */
+    canAccessRecord(auth, record, appointment = null) {
+      if (!auth || !record) return false;
+      if (auth.role === 'doctor') return !!record.clinicianId && record.clinicianId === auth.clinicianId;
+      return !!appointment && auth.appointmentId === appointment.id && appointment.recordId === record.id;
+    },
+
+    /** Check credentials and start a doctor session. Returns the clinician or null. */
+    async login(res, username, password) {
+      const clinician = typeof username === 'string' ? await storage.getClinicianByUsername(username.trim()) : null;
+      const ok = await verifyPassword(password, clinician ? clinician.passwordHash : await dummyHash);
+      if (!clinician || !ok) return null;
+      await startSession(res, { role: 'doctor', clinicianId: clinician.id });
+      return clinician;
+    },
+
+    /** Redeem a one-time invite and start a patient session. Returns the appointmentId or null. */
+    async redeemInvite(res, token) {
+      const invite = verifyInviteToken(token, secret);
+      if (!invite) return null;
+      const appointment = await storage.getAppointment(invite.appointmentId);
+      if (!appointment) return null;
+      const fresh = await storage.markInviteUsed(invite);
+      if (!fresh) return null;
+      await startSession(res, { role: 'patient', appointmentId: appointment.id });
+      return appointment.id;
+    },
+
+    createInvite(appointmentId) {
+      return createInviteToken({ appointmentId, ttlMs: inviteTtlMs, secret });
+    },
+
+    async logout(req, res) {
+      const id = parseCookies(req.headers.cookie)[COOKIE_NAME];
+      if (id) await storage.deleteAuthSession(hashSessionId(id));
+      res.clearCookie(COOKIE_NAME, { path: '/' });
+    },
+  };
+}
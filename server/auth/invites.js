@@ -0,0 +1,42 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Signed patient invite tokens: base64url(JSON payload) + "." + base64url(HMAC-SHA256).
+ * The payload names the appointment, a random nonce (so each link can be redeemed
+ * once) and an expiry timestamp.
+ */
+
+const sign = (data, secret) => createHmac('sha256', secret).update(data).digest('base64url');
+
+export function createInviteToken({ appointmentId, ttlMs, secret }) {
+  const payload = {
+    a: appointmentId,
+    n: randomBytes(16).toString('base64url'),
+    e: Date.now() + ttlMs,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data, secret)}`;
+}
+
+/**
+ * Verify signature and expiry. Returns { appointmentId, nonce, expiresAt } or null.
+ * Does not check whether the nonce was already used — that is the caller's job.
+ */
+export function verifyInviteToken(token, secret) {
+  if (typeof token !== 'string') return null;
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    if (typeof payload?.a !== 'string' || typeof payload?.n !== 'string' || typeof payload?.e !== 'number') return null;
+    if (payload.e <= Date.now()) return null;
+    return { appointmentId: payload.a, nonce: payload.n, expiresAt: payload.e };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Drug information service behind /api/drugs/:name. Label data is fetched from
+ * openFDA once and cached in memory and on disk, so every participant and every
+ * drug popup in a visit shares one lookup.
+ *
+ * Options fall back to env: DATA_DIR (cache lives in DATA_DIR/cache/drug-labels),
+ * DRUG_CACHE_TTL_HOURS (default 168), DRUG_CACHE_DISK ("false" keeps it in memory only).
+ * With a local drug database (DRUG_DATA_SOURCE=local) labels come from it instead
+ * and only the memory cache is used.
+ */
+
+import path from 'path';
+import { createTtlCache } from './ttlCache.js';
+import { fetchDrugLabel } from './openFda.js';
+import { drugDbPath, openDrugDb } from './localDb.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Misses are retried sooner: a name may be misheard now and the label added later
+const MISS_TTL_MS = 6 * HOUR_MS;
+const MAX_NAME_LENGTH = 100;
+const PURGE_INTERVAL_MS = 6 * HOUR_MS;
+// Telehealth prescriptions are mostly oral; prefer those labels unless told otherwise
+const DEFAULT_ROUTE = 'oral';
+const ROUTE_PATTERN = /^[a-z ]{2,30}$/;
+
+/** Cache key for a drug name: case, spacing and punctuation do not matter. */
+export function drugCacheKey(name) {
+  return String(name || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * The local drug database when DRUG_DATA_SOURCE=local, else null (lookups go to
+ * openFDA). Throws if local mode is set but nothing was imported.
+ */
+export function openLocalDrugData(options = {}) {
+  const source = options.source || process.env.DRUG_DATA_SOURCE || 'remote';
+  if (source === 'remote') return null;
+  if (source !== 'local') throw new Error(`Unknown DRUG_DATA_SOURCE "${source}" (expected "remote" or "local")`);
+  const file = drugDbPath(options);
+  const drugDb = openDrugDb(file, { readonly: true });
+  const stats = drugDb.stats();
+  console.log(`[Drugs] Using local drug data from ${file} (${stats.labels} labels, ${stats.interactions} interactions)`);
+  return drugDb;
+}
+
+/**
+ * @param {{ drugDb?: ReturnType<typeof openDrugDb>|null, ttlHours?: number, disk?: string, dataDir?: string, fetchLabel?: Function }} [options]
+ */
+export function createDrugInfoService(options = {}) {
+  const { drugDb } = options;
+  const ttlMs = Number(options.ttlHours ?? process.env.DRUG_CACHE_TTL_HOURS ?? 168) * HOUR_MS;
+  const useDisk = !drugDb && (options.disk ?? process.env.DRUG_CACHE_DISK) !== 'false';
+  const dataDir = options.dataDir || process.env.DATA_DIR || 'data';
+  const cache = createTtlCache({ dir: useDisk ? path.join(dataDir, 'cache', 'drug-labels') : null, ttlMs });
+  const fetchLabel = options.fetchLabel || (drugDb ? async (name, opts) => drugDb.findDrugLabel(name, opts) : fetchDrugLabel);
+  /** Lookups in progress, so concurrent popups for one drug share a request. */
+  const inFlight = new Map();
+
+  // Sweep expired files now and then; unref'd so it never keeps the process alive
+  const timer = setInterval(() => {
+    cache
+      .purgeExpired()
+      .then((removed) => removed && console.log(`[Drugs] Purged ${removed} expired label cache entries`))
+      .catch((e) => console.warn('[Drugs] Cache sweep failed:', e.message));
+  }, PURGE_INTERVAL_MS);
+  timer.unref?.();
+
+  return {
+    /**
+     * DrugData for `name`, from cache when fresh. Null for unusable names.
+     * `route` ranks labels for that route first (default oral).
+     * @returns {Promise<import('./openFda.js').DrugData|null>}
+     */
+    async getDrugInfo(name, { route } = {}) {
+      const drugKey = drugCacheKey(name);
+      if (!drugKey || drugKey.length > MAX_NAME_LENGTH) return null;
+      const requestedRoute = String(route || '').toLowerCase();
+      const preferredRoute = ROUTE_PATTERN.test(requestedRoute) ? requestedRoute : DEFAULT_ROUTE;
+      const key = `${drugKey}|${preferredRoute}`;
+
+      const cached = await cache.get(key);
+      if (cached) return cached;
+      if (inFlight.has(key)) return inFlight.get(key);
+
+      const lookup = (async () => {
+        try {
+          if (!drugDb) console.log(`[Drugs] Fetching label for "${key}"`);
+          const data = await fetchLabel(String(name).trim(), { route: preferredRoute });
+          await cache.set(key, data, data.has_data ? ttlMs : Math.min(ttlMs, MISS_TTL_MS));
+          return data;
+        } finally {
+          inFlight.delete(key);
+        }
+      })();
+      inFlight.set(key, lookup);
+      return lookup;
+    },
+
+    stop: () => clearInterval(timer),
+  };
+}
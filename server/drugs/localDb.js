@@ -0,0 +1,251 @@
+/**
+ * Local drug database for air-gapped deployments: openFDA labels, RxNorm names
+ * and drug–drug interaction pairs, imported by server/scripts/importDrugData.js.
+ * With DRUG_DATA_SOURCE=local the server answers label lookups from this file,
+ * adds its interaction pairs to the interaction knowledge base, and never calls
+ * api.fda.gov or drugs.com.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { emptyDrugData, normalizeLabel, rankLabels } from './openFda.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+
+  CREATE TABLE IF NOT EXISTS labels (
+    set_id TEXT PRIMARY KEY,
+    effective_time TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS label_names (
+    name TEXT NOT NULL,
+    set_id TEXT NOT NULL,
+    exact INTEGER NOT NULL,
+    PRIMARY KEY (name, set_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS rxnorm_names (
+    name TEXT NOT NULL,
+    rxcui TEXT NOT NULL,
+    tty TEXT NOT NULL,
+    PRIMARY KEY (name, rxcui, tty)
+  );
+  CREATE INDEX IF NOT EXISTS idx_rxnorm_names_rxcui ON rxnorm_names (rxcui);
+  CREATE TABLE IF NOT EXISTS rxnorm_ingredients (
+    rxcui TEXT NOT NULL,
+    ingredient_rxcui TEXT NOT NULL,
+    PRIMARY KEY (rxcui, ingredient_rxcui)
+  );
+
+  CREATE TABLE IF NOT EXISTS interactions (
+    drug_a TEXT NOT NULL,
+    drug_b TEXT NOT NULL,
+    severity TEXT,
+    description TEXT,
+    source TEXT,
+    PRIMARY KEY (drug_a, drug_b)
+  );
+`;
+
+/** Label fields the drug popup uses; the rest of a bulk label is dropped on import. */
+const LABEL_FIELDS = [
+  'set_id',
+  'effective_time',
+  'drug_interactions',
+  'boxed_warning',
+  'warnings',
+  'contraindications',
+  'dosage_and_administration',
+  'adverse_reactions',
+  'indications_and_usage',
+];
+const OPENFDA_FIELDS = ['brand_name', 'generic_name', 'substance_name', 'route'];
+
+// RxNav resolves a name to the ingredient before brands and synonyms; so do we
+const TTY_PRIORITY = ['IN', 'PIN', 'MIN', 'BN', 'SY', 'TMSY'];
+export const RXNORM_TTYS = new Set(TTY_PRIORITY);
+
+// Enough candidates for rankLabels; best name matches and newest labels come first
+const MAX_LABEL_CANDIDATES = 100;
+
+const normalizeName = (name) => String(name || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/** Names a label can be found by: each full name (exact) and each word in it. */
+function labelNames(openfda) {
+  const names = new Map();
+  for (const field of ['brand_name', 'generic_name', 'substance_name']) {
+    for (const value of openfda?.[field] || []) {
+      const full = normalizeName(value);
+      if (!full) continue;
+      names.set(full, 1);
+      for (const word of full.split(/[^a-z0-9-]+/)) {
+        if (word.length >= 3 && !names.has(word)) names.set(word, 0);
+      }
+    }
+  }
+  return names;
+}
+
+/** Where the local database lives: DRUG_DB_FILE, else DATA_DIR/drugs.db. */
+export function drugDbPath(options = {}) {
+  return options.file || process.env.DRUG_DB_FILE || path.join(options.dataDir || process.env.DATA_DIR || 'data', 'drugs.db');
+}
+
+/**
+ * Open (and create, unless read-only) the local drug database.
+ * @param {string} file
+ * @param {{ readonly?: boolean }} [options]
+ */
+export function openDrugDb(file, { readonly = false } = {}) {
+  if (readonly && !fs.existsSync(file)) {
+    throw new Error(`Local drug database not found at ${file}; run "npm run import-drug-data" first`);
+  }
+  if (!readonly) fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new Database(file, { readonly });
+  if (!readonly) {
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+  }
+
+  let stmts;
+  const prepare = () =>
+    (stmts ??= {
+      findLabels: db.prepare(`
+        SELECT l.data FROM label_names n JOIN labels l ON l.set_id = n.set_id
+        WHERE n.name = ? ORDER BY n.exact DESC, l.effective_time DESC LIMIT ${MAX_LABEL_CANDIDATES}
+      `),
+      rxcuisByName: db.prepare('SELECT rxcui, tty FROM rxnorm_names WHERE name = ?'),
+      ingredients: db.prepare('SELECT ingredient_rxcui FROM rxnorm_ingredients WHERE rxcui = ?'),
+      ingredientNames: db.prepare("SELECT name FROM rxnorm_names WHERE rxcui = ? AND tty = 'IN'"),
+      interaction: db.prepare('SELECT * FROM interactions WHERE drug_a = ? AND drug_b = ?'),
+    });
+
+  let writes;
+  const writeStmts = () =>
+    (writes ??= {
+      deleteLabelNames: db.prepare('DELETE FROM label_names WHERE set_id = ?'),
+      upsertLabel: db.prepare('INSERT OR REPLACE INTO labels (set_id, effective_time, data) VALUES (?, ?, ?)'),
+      insertLabelName: db.prepare('INSERT OR IGNORE INTO label_names (name, set_id, exact) VALUES (?, ?, ?)'),
+      insertRxnormName: db.prepare('INSERT OR IGNORE INTO rxnorm_names (name, rxcui, tty) VALUES (?, ?, ?)'),
+      insertIngredient: db.prepare('INSERT OR IGNORE INTO rxnorm_ingredients (rxcui, ingredient_rxcui) VALUES (?, ?)'),
+      upsertInteraction: db.prepare(
+        'INSERT OR REPLACE INTO interactions (drug_a, drug_b, severity, description, source) VALUES (?, ?, ?, ?, ?)'
+      ),
+      setMeta: db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)'),
+    });
+
+  /** The best RxCUI for a name, or null. */
+  const getRxcui = (name) => {
+    const rows = prepare().rxcuisByName.all(normalizeName(name));
+    rows.sort((a, b) => TTY_PRIORITY.indexOf(a.tty) - TTY_PRIORITY.indexOf(b.tty));
+    return rows[0]?.rxcui ?? null;
+  };
+
+  /**
+   * Keys an interaction row may use for this drug: its name, its RxCUI and its
+   * ingredients' RxCUIs and names (so "Advil" matches rows about ibuprofen).
+   */
+  const interactionKeys = (name) => {
+    const keys = new Set([normalizeName(name)]);
+    const rxcui = getRxcui(name);
+    if (rxcui) {
+      keys.add(rxcui);
+      for (const { ingredient_rxcui: ingredient } of prepare().ingredients.all(rxcui)) {
+        keys.add(ingredient);
+        for (const row of prepare().ingredientNames.all(ingredient)) keys.add(row.name);
+      }
+    }
+    return [...keys];
+  };
+
+  const findInteraction = (keysA, keysB) => {
+    for (const a of keysA) {
+      for (const b of keysB) {
+        const [first, second] = a < b ? [a, b] : [b, a];
+        const row = prepare().interaction.get(first, second);
+        if (row) return row;
+      }
+    }
+    return null;
+  };
+
+  return {
+    db,
+
+    /** Best-ranked label for `name` as DrugData (see rankLabels), or empty DrugData. */
+    findDrugLabel(name, { route } = {}) {
+      const candidates = prepare().findLabels.all(normalizeName(name)).map((row) => JSON.parse(row.data));
+      const [best] = rankLabels(candidates, name, route);
+      return best ? normalizeLabel(best, name) : emptyDrugData(name);
+    },
+
+    getRxcui,
+
+    /** Imported interaction row for two drugs (by name, RxCUI or ingredient), or null. */
+    findInteraction(nameA, nameB) {
+      return findInteraction(interactionKeys(nameA), interactionKeys(nameB));
+    },
+
+    // --- Import (used by server/scripts/importDrugData.js) ---
+
+    /** Insert or replace one openFDA label result. Returns false if it has no set_id or names. */
+    importLabel(result) {
+      if (!result?.set_id || !result.openfda) return false;
+      const names = labelNames(result.openfda);
+      if (!names.size) return false;
+
+      const label = { openfda: {} };
+      for (const field of LABEL_FIELDS) if (result[field] !== undefined) label[field] = result[field];
+      for (const field of OPENFDA_FIELDS) if (result.openfda[field]) label.openfda[field] = result.openfda[field];
+
+      const stmt = writeStmts();
+      stmt.deleteLabelNames.run(result.set_id);
+      stmt.upsertLabel.run(result.set_id, result.effective_time ?? null, JSON.stringify(label));
+      for (const [name, exact] of names) stmt.insertLabelName.run(name, result.set_id, exact);
+      return true;
+    },
+
+    importRxnormName(name, rxcui, tty) {
+      writeStmts().insertRxnormName.run(normalizeName(name), rxcui, tty);
+    },
+
+    importIngredient(rxcui, ingredientRxcui) {
+      writeStmts().insertIngredient.run(rxcui, ingredientRxcui);
+    },
+
+    /** RxCUIs of ingredient (IN) concepts, for resolving brand and form relations. */
+    ingredientRxcuis() {
+      return new Set(db.prepare("SELECT DISTINCT rxcui FROM rxnorm_names WHERE tty = 'IN'").pluck().all());
+    },
+
+    /** `drugA`/`drugB` are names or RxCUIs; the pair is stored in a fixed order so lookups are symmetric. */
+    importInteraction({ drugA, drugB, severity, description, source }) {
+      const a = normalizeName(drugA);
+      const b = normalizeName(drugB);
+      if (!a || !b || a === b) return false;
+      const [first, second] = a < b ? [a, b] : [b, a];
+      writeStmts().upsertInteraction.run(first, second, severity || null, description || null, source || null);
+      return true;
+    },
+
+    setMeta(key, value) {
+      writeStmts().setMeta.run(key, String(value));
+    },
+
+    /** Row counts per table, for the import summary and startup log. */
+    stats() {
+      const count = (table) => db.prepare(`SELECT COUNT(*) FROM ${table}`).pluck().get();
+      return {
+        labels: count('labels'),
+        rxnormNames: count('rxnorm_names'),
+        interactions: count('interactions'),
+      };
+    },
+
+    transaction: (fn) => db.transaction(fn),
+    close: () => db.close(),
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * openFDA drug label lookup, normalized to the DrugData shape the drug popup uses.
+ */
+
+const LABEL_URL = 'https://api.fda.gov/drug/label.json';
+const SEARCH_FIELDS = ['generic_name', 'brand_name', 'substance_name'];
+// Enough candidates to find the single-ingredient label among combination products
+const CANDIDATE_LIMIT = 25;
+
+/**
+ * @typedef {Object} DrugData
+ * @property {string} brand_name
+ * @property {string} generic_name
+ * @property {string[]} route
+ * @property {string[]} interactions
+ * @property {string[]} warnings
+ * @property {string[]} contraindications
+ * @property {string[]} dosage
+ * @property {string[]} adverse_reactions
+ * @property {string[]} indications
+ * @property {boolean} has_data
+ * @property {string} [set_id]          SPL set ID of the label used, for citing it (DailyMed)
+ * @property {string} [effective_time]  Label version date, YYYYMMDD
+ */
+
+/** Placeholder when openFDA has no label, so the UI still renders. */
+export function emptyDrugData(name) {
+  return {
+    brand_name: name,
+    generic_name: '',
+    route: [],
+    interactions: [],
+    warnings: [],
+    contraindications: [],
+    dosage: [],
+    adverse_reactions: [],
+    indications: [],
+    has_data: false,
+  };
+}
+
+/** Map one openFDA label result to DrugData. */
+export function normalizeLabel(result, name) {
+  return {
+    brand_name: result.openfda?.brand_name?.[0] || name,
+    generic_name: result.openfda?.generic_name?.[0] || 'Unknown',
+    route: result.openfda?.route || ['Route not specified.'],
+    interactions: result.drug_interactions || ['No specific interaction data listed.'],
+    warnings: result.boxed_warning || result.warnings || ['No major warnings listed.'],
+    contraindications: result.contraindications || ['No contraindications listed.'],
+    dosage: result.dosage_and_administration || ['No dosage information available.'],
+    adverse_reactions: result.adverse_reactions || ['No adverse reactions data available.'],
+    indications: result.indications_and_usage || ['No indication data.'],
+    has_data: true,
+    set_id: result.set_id,
+    effective_time: result.effective_time,
+  };
+}
+
+const lower = (values) => (Array.isArray(values) ? values.map((v) => String(v).toLowerCase()) : []);
+
+/**
+ * How well a label's names match the query: 3 exact brand/generic name,
+ * 2 the query leads a generic or substance name ("metformin" → "METFORMIN
+ * HYDROCHLORIDE"), 1 mentioned anywhere (e.g. inside a combination product).
+ */
+function nameMatch(openfda, query) {
+  const brands = lower(openfda.brand_name);
+  const generics = lower(openfda.generic_name);
+  const substances = lower(openfda.substance_name);
+  if ([...brands, ...generics].includes(query)) return 3;
+  if ([...generics, ...substances].some((n) => n.startsWith(`${query} `))) return 2;
+  return 1;
+}
+
+/** Combination products list several substances, or "X and Y" as the generic name. */
+function isSingleIngredient(openfda) {
+  if (Array.isArray(openfda.substance_name) && openfda.substance_name.length) return openfda.substance_name.length === 1;
+  return !lower(openfda.generic_name).some((n) => / and |, /.test(n));
+}
+
+/**
+ * Order candidate labels best first: name match, then single-ingredient, then
+ * the preferred route, then the most recent effective_time (YYYYMMDD).
+ */
+export function rankLabels(results, name, route) {
+  const query = name.toLowerCase();
+  const scored = results
+    .filter((r) => r?.openfda)
+    .map((r) => ({
+      label: r,
+      match: nameMatch(r.openfda, query),
+      single: isSingleIngredient(r.openfda) ? 1 : 0,
+      route: route && lower(r.openfda.route).some((x) => x.includes(route)) ? 1 : 0,
+      effective: String(r.effective_time || ''),
+    }));
+  scored.sort(
+    (a, b) =>
+      b.match - a.match ||
+      b.single - a.single ||
+      b.route - a.route ||
+      b.effective.localeCompare(a.effective)
+  );
+  return scored.map((s) => s.label);
+}
+
+/**
+ * Fetch the best label for `name`, searching generic, brand and substance
+ * names in one query and ranking the candidates (see rankLabels). Resolves to
+ * empty DrugData when openFDA has no match; throws on network and server
+ * errors so they are not cached.
+ * @param {string} name
+ * @param {{ route?: string, timeoutMs?: number }} [options]  `route` is the preferred route, e.g. "oral"
+ * @returns {Promise<DrugData>}
+ */
+export async function fetchDrugLabel(name, { route, timeoutMs = 10000 } = {}) {
+  const term = encodeURIComponent(name.replace(/"/g, ''));
+  // openFDA treats "+" (a space) between clauses as OR
+  const search = SEARCH_FIELDS.map((field) => `openfda.${field}:"${term}"`).join('+');
+  const res = await fetch(`${LABEL_URL}?search=${search}&limit=${CANDIDATE_LIMIT}`, {
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (res.status === 404) return emptyDrugData(name);
+  if (!res.ok) throw new Error(`openFDA returned ${res.status}`);
+  const data = await res.json();
+  const [best] = rankLabels(data?.results || [], name, route?.toLowerCase());
+  return best ? normalizeLabel(best, name) : emptyDrugData(name);
+}
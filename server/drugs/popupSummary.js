@@ -0,0 +1,96 @@
+/**
+ * Condenses openFDA label text into the short fields shown in the drug info
+ * popup. Uses the configured LLM's summarizer; without one, text is truncated.
+ */
+
+const MAX_INPUT_CHARS = 2000;
+
+const EMPTY_POPUP = {
+  generic_name: 'Unknown',
+  route: 'Not specified',
+  purpose: 'No information available',
+  dosage: 'Consult a healthcare provider',
+  warnings: [],
+  side_effects: [],
+  contraindications: [],
+  interactions: [],
+};
+
+const asTexts = (value) => (Array.isArray(value) ? value.filter((t) => typeof t === 'string') : []);
+
+/** Placeholders such as "No warnings listed." are not worth summarizing. */
+const isPlaceholder = (t) => {
+  const lower = t.toLowerCase();
+  return t.trim().length <= 10 || lower.includes('no ') || lower.includes('not available') || lower.includes('not specified');
+};
+
+/** Split a summary into de-duplicated, capitalized bullet sentences. */
+export function toBullets(summary, maxItems) {
+  return summary
+    // Split on sentence boundaries, newlines and semicolons
+    .split(/(?<=[.!?])\s+(?=[A-Z])/g)
+    .flatMap((sentence) => sentence.split(/[;\n]/))
+    .map((s) => s.replace(/^[\s\-•*:]+|[\s\-•*:]+$/g, '').trim())
+    .filter((s, index, array) => s.length > 15 && s.length < 250 && array.indexOf(s) === index)
+    .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
+    .slice(0, maxItems);
+}
+
+/**
+ * @param {object} drugData  DrugData as returned by the openFDA lookup
+ * @param {import('../llm/index.js').LlmProvider|null} llm
+ */
+export async function summarizeToPopupFormat(drugData, llm) {
+  const title = String(drugData?.brand_name || 'Unknown');
+  if (!drugData?.has_data) return { title, ...EMPTY_POPUP };
+
+  const condense = async (texts, maxChars) => {
+    const text = texts.join(' ');
+    if (text.length <= maxChars) return text;
+    if (llm) {
+      try {
+        return await llm.summarize(text.slice(0, MAX_INPUT_CHARS * 1.5), { maxWords: Math.round(maxChars / 6) });
+      } catch (err) {
+        console.warn('[Drug summary] Summarization failed, truncating:', err.message);
+      }
+    }
+    return `${text.substring(0, maxChars)}...`;
+  };
+
+  const bullets = async (texts, maxItems) => {
+    const valid = texts.filter((t) => !isPlaceholder(t));
+    if (valid.length === 0) return [];
+    if (!llm) return valid.slice(0, maxItems).map((t) => t.substring(0, 200));
+    try {
+      const summary = await llm.summarize(valid.join(' ').substring(0, MAX_INPUT_CHARS), {
+        maxWords: 150,
+        instructions: 'Summarize the key points of the following drug label text as short sentences',
+      });
+      return toBullets(summary, maxItems);
+    } catch (err) {
+      console.warn('[Drug summary] Bullet summarization failed:', err.message);
+      return [];
+    }
+  };
+
+  const [purpose, dosage, warnings, sideEffects, contraindications, interactions] = await Promise.all([
+    condense(asTexts(drugData.indications), 250),
+    condense(asTexts(drugData.dosage), 200),
+    bullets(asTexts(drugData.warnings), 4),
+    bullets(asTexts(drugData.adverse_reactions), 5),
+    bullets(asTexts(drugData.contraindications), 4),
+    bullets(asTexts(drugData.interactions), 4),
+  ]);
+
+  return {
+    title,
+    generic_name: String(drugData.generic_name || ''),
+    route: asTexts(drugData.route).join(', '),
+    purpose,
+    dosage,
+    warnings,
+    side_effects: sideEffects,
+    contraindications,
+    interactions,
+  };
+}
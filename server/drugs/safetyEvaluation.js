@@ -0,0 +1,101 @@
+/**
+ * Judges whether a drug looks safe for a patient given its label and the
+ * patient's current medications: contraindicated or major interactions from the
+ * knowledge base first, then known unsafe pairs, then the configured LLM's
+ * classifier, then a label-text heuristic.
+ */
+
+import { isSevere } from '../../shared/interactions.js';
+
+// Few-shot style known unsafe combinations
+const KNOWN_UNSAFE_PAIRS = [
+  { a: 'sertraline', b: 'albuterol', reason: 'Known adverse combination per internal rule: Sertraline + Albuterol' },
+];
+
+const asTexts = (value) => (Array.isArray(value) ? value.filter((t) => typeof t === 'string') : []);
+
+/**
+ * @param {string} drugName
+ * @param {object} drugData  DrugData as returned by the openFDA lookup
+ * @param {{ drugs: string[] }} patient
+ * @param {import('../llm/index.js').LlmProvider|null} llm
+ * @param {import('../../shared/interactions').Interaction[]} [knownInteractions]
+ *   Knowledge-base interactions with the patient's drugs, most severe first.
+ *   Returned with the result so the popup can list them.
+ */
+export async function evaluateDrugSafety(drugName, drugData, patient, llm, knownInteractions = []) {
+  const [worst] = knownInteractions;
+  if (worst && isSevere(worst.severity)) {
+    return {
+      decision: 'unsafe',
+      confidence: worst.severity === 'contraindicated' ? 0.99 : 0.95,
+      rationale: `${worst.drugs.join(' + ')} (${worst.severity}): ${worst.mechanism}`,
+      source: 'knowledge-base',
+      patientDrugs: asTexts(patient?.drugs),
+      interactions: knownInteractions,
+    };
+  }
+  return { ...(await judgeSafety(drugName, drugData, patient, llm)), interactions: knownInteractions };
+}
+
+async function judgeSafety(drugName, drugData, patient, llm) {
+  const patientDrugs = asTexts(patient?.drugs);
+  const name = String(drugName || '').toLowerCase();
+  const patientSet = new Set(patientDrugs.map((d) => d.toLowerCase()));
+
+  for (const pair of KNOWN_UNSAFE_PAIRS) {
+    if ((name === pair.a && patientSet.has(pair.b)) || (name === pair.b && patientSet.has(pair.a))) {
+      return { decision: 'unsafe', confidence: 0.95, rationale: pair.reason, source: 'heuristic', patientDrugs };
+    }
+  }
+
+  if (llm) {
+    const input = [
+      `Patient current medications: ${patientDrugs.join(', ') || 'None listed'}.`,
+      `Drug name: ${drugName}. Generic: ${drugData?.generic_name || 'N/A'}. Route: ${asTexts(drugData?.route).join(', ') || 'N/A'}.`,
+      `Indications: ${asTexts(drugData?.indications).join(' ') || 'N/A'}.`,
+      `Warnings: ${asTexts(drugData?.warnings).join(' ') || 'N/A'}.`,
+      `Contraindications: ${asTexts(drugData?.contraindications).join(' ') || 'N/A'}.`,
+      `Known interactions: ${asTexts(drugData?.interactions).join(' ') || 'N/A'}.`,
+      `Examples (few-shot): Sertraline + Albuterol → unsafe; Ibuprofen + Lisinopril → unsafe; Acetaminophen + Amoxicillin → safe.`,
+    ].join('\n');
+    try {
+      const { label, scores } = await llm.classify(input, ['safe', 'unsafe']);
+      const safeScore = scores.safe ?? 0;
+      const unsafeScore = scores.unsafe ?? 0;
+      return {
+        decision: label === 'unsafe' ? 'unsafe' : 'safe',
+        confidence: Math.max(safeScore, unsafeScore),
+        rationale: `Model scores — safe: ${safeScore.toFixed(2)}, unsafe: ${unsafeScore.toFixed(2)}.`,
+        source: 'llm',
+        patientDrugs,
+      };
+    } catch (err) {
+      console.warn('[Safety] LLM classification failed, falling back:', err.message);
+    }
+  }
+
+  // Fallback heuristic: if any patient drug name occurs in interactions/warnings, mark unsafe
+  const combined = [
+    ...asTexts(drugData?.interactions),
+    ...asTexts(drugData?.warnings),
+    ...asTexts(drugData?.contraindications),
+  ].join(' ').toLowerCase();
+  const hit = patientDrugs.find((d) => d && combined.includes(d.toLowerCase()));
+  if (hit) {
+    return {
+      decision: 'unsafe',
+      confidence: 0.65,
+      rationale: `Heuristic: Found patient drug "${hit}" in contraindications/interactions/warnings.`,
+      source: 'heuristic',
+      patientDrugs,
+    };
+  }
+  return {
+    decision: 'safe',
+    confidence: 0.55,
+    rationale: 'Heuristic: No obvious conflicts found in labeling data.',
+    source: 'heuristic',
+    patientDrugs,
+  };
+}
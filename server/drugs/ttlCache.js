@@ -0,0 +1,95 @@
+/**
+ * Two-level cache with expiry: a bounded in-memory map in front of one JSON
+ * file per entry on disk, so cached data survives restarts. Disk errors are
+ * logged and treated as misses; the cache never fails a lookup.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+const DEFAULT_MAX_MEMORY_ENTRIES = 500;
+
+/**
+ * @param {{ dir: string|null, ttlMs: number, maxMemoryEntries?: number }} options
+ *   `dir` null keeps the cache in memory only.
+ */
+export function createTtlCache({ dir, ttlMs, maxMemoryEntries = DEFAULT_MAX_MEMORY_ENTRIES }) {
+  /** @type {Map<string, { value: unknown, expiresAt: number }>} Insertion order doubles as LRU order. */
+  const memory = new Map();
+  let dirReady = null;
+
+  const fileFor = (key) => path.join(dir, `${createHash('sha256').update(key).digest('hex').slice(0, 32)}.json`);
+
+  const remember = (key, entry) => {
+    memory.delete(key);
+    memory.set(key, entry);
+    if (memory.size > maxMemoryEntries) memory.delete(memory.keys().next().value);
+  };
+
+  return {
+    /** The cached value, or undefined when missing or expired. */
+    async get(key) {
+      const now = Date.now();
+      const hit = memory.get(key);
+      if (hit) {
+        if (hit.expiresAt > now) {
+          remember(key, hit);
+          return hit.value;
+        }
+        memory.delete(key);
+      }
+      if (!dir) return undefined;
+      try {
+        const entry = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+        if (entry.key !== key || !(entry.expiresAt > now)) return undefined;
+        remember(key, { value: entry.value, expiresAt: entry.expiresAt });
+        return entry.value;
+      } catch (err) {
+        if (err.code !== 'ENOENT') console.warn('[Cache] Failed to read entry:', err.message);
+        return undefined;
+      }
+    },
+
+    /** Store `value`; `entryTtlMs` overrides the cache's TTL for this entry. */
+    async set(key, value, entryTtlMs = ttlMs) {
+      const expiresAt = Date.now() + entryTtlMs;
+      remember(key, { value, expiresAt });
+      if (!dir) return;
+      try {
+        dirReady ??= fs.mkdir(dir, { recursive: true });
+        await dirReady;
+        // Write then rename so a crash never leaves a half-written entry
+        const file = fileFor(key);
+        const tmp = `${file}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify({ key, expiresAt, value }));
+        await fs.rename(tmp, file);
+      } catch (err) {
+        dirReady = null;
+        console.warn('[Cache] Failed to write entry:', err.message);
+      }
+    },
+
+    /** Delete expired files from disk. Returns how many were removed. */
+    async purgeExpired(now = Date.now()) {
+      for (const [key, entry] of memory) {
+        if (entry.expiresAt <= now) memory.delete(key);
+      }
+      if (!dir) return 0;
+      let removed = 0;
+      const names = await fs.readdir(dir).catch(() => []);
+      for (const name of names.filter((n) => n.endsWith('.json'))) {
+        const file = path.join(dir, name);
+        try {
+          const entry = JSON.parse(await fs.readFile(file, 'utf8'));
+          if (entry.expiresAt > now) continue;
+        } catch {
+          // Unreadable entries are dropped too
+        }
+        await fs.rm(file, { force: true });
+        removed++;
+      }
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Drug–drug interaction engine over a local, versioned knowledge base
+ * (knowledge-base.json). Entries pair two drugs, two classes or a drug and a
+ * class (see shared/drug-classes.txt) and carry severity, mechanism, clinical
+ * management and a source citation.
+ *
+ * Options fall back to env: INTERACTION_KB_FILE replaces the bundled knowledge
+ * base with a site-maintained one in the same format.
+ */
+
+import fs from 'fs';
+import { canonicalDrug, classesOf } from '../../shared/drugClasses.js';
+import { compareInteractions, highestSeverity, INTERACTION_SEVERITIES, severityRank } from '../../shared/interactions.js';
+
+const DEFAULT_KB_FILE = new URL('./knowledge-base.json', import.meta.url);
+const MAX_REPORTED_PAIRS = 5;
+
+const displayName = (name) => String(name).charAt(0).toUpperCase() + String(name).slice(1);
+
+/** One-line summary of typed interactions, for logs and plain-text consumers. */
+export function summarizeInteractions(interactions) {
+  if (!interactions.length) return 'No known interactions found.';
+  const shown = interactions
+    .slice(0, MAX_REPORTED_PAIRS)
+    .map((i) => `${i.drugs.join(' + ')} (${i.severity})`)
+    .join('; ');
+  return `Possible interaction(s): ${shown}${interactions.length > MAX_REPORTED_PAIRS ? ' ...' : ''}`;
+}
+
+/** "drug:warfarin" / "class:nsaid" for one side of an entry. */
+const sideKey = (side) => (side.drug ? `drug:${side.drug}` : `class:${side.class}`);
+
+/** Reject entries a typo would silently disable. Returns the list of problems. */
+function validate(kb, classTable) {
+  const problems = [];
+  if (!kb.version) problems.push('missing "version"');
+  if (!Array.isArray(kb.interactions)) return [...problems, 'missing "interactions" array'];
+
+  const ids = new Set();
+  kb.interactions.forEach((entry, i) => {
+    const where = `interactions[${i}]${entry?.id ? ` (${entry.id})` : ''}`;
+    if (!entry?.id) problems.push(`${where}: missing id`);
+    else if (ids.has(entry.id)) problems.push(`${where}: duplicate id`);
+    ids.add(entry?.id);
+    if (!INTERACTION_SEVERITIES.includes(entry?.severity)) {
+      problems.push(`${where}: severity must be one of ${INTERACTION_SEVERITIES.join(', ')}`);
+    }
+    for (const field of ['mechanism', 'management', 'source']) {
+      if (typeof entry?.[field] !== 'string' || !entry[field].trim()) problems.push(`${where}: missing ${field}`);
+    }
+    for (const side of ['a', 'b']) {
+      const value = entry?.[side];
+      if (!value || !!value.drug === !!value.class) problems.push(`${where}: "${side}" needs exactly one of drug or class`);
+      else if (value.class && !classTable.members.has(value.class)) problems.push(`${where}: unknown class "${value.class}"`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * @param {{
+ *   lexicon: import('../../shared/drugLexicon').DrugLexicon,
+ *   classes: import('../../shared/drugClasses').DrugClassTable,
+ *   file?: string|URL,
+ *   lookupPair?: (a: string, b: string) => { severity?: string, description?: string, source?: string }|null,
+ * }} options
+ *   `lookupPair` supplies pairs from an imported dataset (local drug database)
+ *   for combinations the knowledge base does not cover.
+ */
+export function createInteractionEngine({ lexicon, classes, file, lookupPair }) {
+  const kbFile = file || process.env.INTERACTION_KB_FILE || DEFAULT_KB_FILE;
+  const kb = JSON.parse(fs.readFileSync(kbFile, 'utf8'));
+  const problems = validate(kb, classes);
+  if (problems.length) throw new Error(`Invalid interaction knowledge base ${kbFile}: ${problems.join('; ')}`);
+
+  const entries = kb.interactions.map((entry) => ({
+    ...entry,
+    a: { drug: entry.a.drug && canonicalDrug(lexicon, entry.a.drug), class: entry.a.class },
+    b: { drug: entry.b.drug && canonicalDrug(lexicon, entry.b.drug), class: entry.b.class },
+  }));
+
+  /** Keys an entry side may use for this drug: the drug itself and each of its classes. */
+  const keysOf = (name) => new Set([`drug:${canonicalDrug(lexicon, name)}`, ...classesOf(classes, lexicon, name).map((c) => `class:${c}`)]);
+
+  /** The most severe knowledge-base entry covering two drugs, else the imported pair, else null. */
+  const findPair = (nameA, nameB) => {
+    if (canonicalDrug(lexicon, nameA) === canonicalDrug(lexicon, nameB)) return null;
+    const keysA = keysOf(nameA);
+    const keysB = keysOf(nameB);
+    let best = null;
+    for (const entry of entries) {
+      const [a, b] = [sideKey(entry.a), sideKey(entry.b)];
+      if (!((keysA.has(a) && keysB.has(b)) || (keysA.has(b) && keysB.has(a)))) continue;
+      if (!best || severityRank(entry.severity) < severityRank(best.severity)) best = entry;
+    }
+    if (best) {
+      const { severity, mechanism, management, source, id } = best;
+      return { severity, mechanism, management, source: `${source} (knowledge base ${kb.version}, ${id})` };
+    }
+
+    const row = lookupPair?.(nameA, nameB);
+    if (!row) return null;
+    const severity = String(row.severity || '').toLowerCase();
+    return {
+      // Imported datasets grade differently ("Unknown", "Level 2"...); treat those as moderate
+      severity: INTERACTION_SEVERITIES.includes(severity) ? severity : 'moderate',
+      mechanism: row.description || 'Interaction reported in the imported interaction dataset.',
+      management: 'Review the combination before prescribing.',
+      source: row.source || 'Imported interaction dataset',
+    };
+  };
+
+  return {
+    version: kb.version,
+    size: entries.length,
+
+    /**
+     * Interactions between `newDrug` and each existing drug, most severe first.
+     * @returns {import('../../shared/interactions').InteractionCheckResult}
+     */
+    check(newDrug, existingDrugs) {
+      const others = [...new Set((existingDrugs || []).filter(Boolean))];
+      const found = [];
+      for (const other of others) {
+        const match = findPair(newDrug, other);
+        if (match) found.push({ drugs: [displayName(newDrug), displayName(other)], ...match });
+      }
+      found.sort(compareInteractions);
+      return {
+        hasConflict: found.length > 0,
+        severity: highestSeverity(found),
+        interactions: found,
+        details: summarizeInteractions(found),
+        source: 'knowledge-base',
+        version: kb.version,
+      };
+    },
+  };
+}
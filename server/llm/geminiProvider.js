@@ -0,0 +1,44 @@
+/**
+ * Google Gemini through @google/generative-ai. The SDK is imported on first use.
+ */
+
+import { toMessages } from './messages.js';
+
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+
+export function createGeminiProvider({ apiKey, model = DEFAULT_MODEL }) {
+  let client;
+  const getClient = async () => {
+    if (!client) {
+      const { GoogleGenerativeAI } = await import('@google/generative-ai');
+      client = new GoogleGenerativeAI(apiKey);
+    }
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+    async complete(request, { signal }) {
+      const messages = toMessages(request);
+      const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n');
+      const generative = (await getClient()).getGenerativeModel({
+        model,
+        ...(system ? { systemInstruction: system } : {}),
+      });
+      const result = await generative.generateContent(
+        {
+          contents: messages
+            .filter((m) => m.role !== 'system')
+            .map((m) => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+          generationConfig: {
+            maxOutputTokens: request.maxTokens,
+            temperature: request.temperature,
+            ...(request.json ? { responseMimeType: 'application/json' } : {}),
+          },
+        },
+        { signal }
+      );
+      return result.response.text() || '';
+    },
+  };
+}
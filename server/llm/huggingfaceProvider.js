@@ -0,0 +1,62 @@
+/**
+ * HuggingFace Inference. Uses dedicated models for summarization and zero-shot
+ * classification, and a chat model for completions.
+ */
+
+import { toMessages } from './messages.js';
+
+const DEFAULT_CHAT_MODEL = 'meta-llama/Llama-3.1-8B-Instruct';
+const SUMMARIZATION_MODEL = 'facebook/bart-large-cnn';
+const CLASSIFICATION_MODEL = 'facebook/bart-large-mnli';
+const MAX_INPUT_CHARS = 3000;
+
+export function createHuggingFaceProvider({ apiKey, model = DEFAULT_CHAT_MODEL }) {
+  let client;
+  const getClient = async () => {
+    if (!client) {
+      const { InferenceClient } = await import('@huggingface/inference');
+      client = new InferenceClient(apiKey);
+    }
+    return client;
+  };
+
+  return {
+    name: 'huggingface',
+    async complete(request, { signal }) {
+      const completion = await (await getClient()).chatCompletion(
+        { model, messages: toMessages(request), max_tokens: request.maxTokens, temperature: request.temperature },
+        { signal }
+      );
+      return completion.choices[0]?.message?.content || '';
+    },
+
+    async summarize(text, options, { signal }) {
+      // BART lengths are in tokens; roughly 1.3 tokens per word
+      const maxLength = Math.round((options.maxWords || 80) * 1.3);
+      const result = await (await getClient()).summarization(
+        {
+          model: SUMMARIZATION_MODEL,
+          inputs: text.slice(0, MAX_INPUT_CHARS),
+          parameters: { max_length: maxLength, min_length: Math.min(10, maxLength) },
+        },
+        { signal }
+      );
+      return result.summary_text;
+    },
+
+    async classify(text, labels, { signal }) {
+      const result = await (await getClient()).zeroShotClassification(
+        { model: CLASSIFICATION_MODEL, inputs: text.slice(0, MAX_INPUT_CHARS), parameters: { candidate_labels: labels } },
+        { signal }
+      );
+      // Newer clients return [{ label, score }], older ones { labels, scores }
+      const pairs = Array.isArray(result)
+        ? result.map((r) => [r.label, r.score])
+        : (result.labels || []).map((label, i) => [label, result.scores[i]]);
+      const scores = Object.fromEntries(labels.map((l) => [l, 0]));
+      for (const [label, score] of pairs) scores[label] = score;
+      const label = labels.reduce((best, l) => (scores[l] > scores[best] ? l : best), labels[0]);
+      return { label, scores };
+    },
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * One interface for every LLM call the server makes: chat/completion,
+ * summarization and classification. The backend is chosen per deployment with
+ * LLM_PROVIDER:
+ *   gemini       Google Gemini (GEMINI_API_KEY)
+ *   openai       OpenAI (OPENAI_API_KEY)
+ *   huggingface  HuggingFace Inference (HUGGINGFACE_API_KEY)
+ *   local        any OpenAI-compatible server, e.g. Ollama or llama.cpp (LOCAL_LLM_URL)
+ *   mock         deterministic canned output, for tests and demos
+ *   none         disabled; callers fall back to their non-LLM behaviour
+ * Without LLM_PROVIDER the first provider with credentials wins, in the order above.
+ *
+ * Every call gets a timeout (LLM_TIMEOUT_MS) and is retried on timeouts, rate
+ * limits and server errors (LLM_RETRIES) with exponential backoff.
+ */
+
+import { createGeminiProvider } from './geminiProvider.js';
+import { createOpenAiProvider } from './openaiProvider.js';
+import { createHuggingFaceProvider } from './huggingfaceProvider.js';
+import { createMockProvider } from './mockProvider.js';
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_MS = 500;
+
+/**
+ * @typedef {Object} ChatMessage
+ * @property {'system'|'user'|'assistant'} role
+ * @property {string} content
+ *
+ * @typedef {Object} CompletionRequest
+ * @property {string} [prompt]  Shorthand for a single user message
+ * @property {ChatMessage[]} [messages]
+ * @property {string} [system]
+ * @property {number} [maxTokens]
+ * @property {number} [temperature]
+ * @property {boolean} [json]  Ask for a JSON object reply where the backend supports it
+ *
+ * @typedef {Object} Classification
+ * @property {string} label  Highest-scoring label
+ * @property {Record<string, number>} scores  0..1 per label
+ *
+ * @typedef {Object} LlmProvider
+ * @property {string} name
+ * @property {(request: CompletionRequest) => Promise<string>} complete
+ * @property {(text: string, options?: { maxWords?: number, instructions?: string }) => Promise<string>} summarize
+ * @property {(text: string, labels: string[]) => Promise<Classification>} classify
+ *
+ * Adapters implement `complete` and may implement `summarize`/`classify` natively;
+ * each receives `{ signal }` as its last argument and should pass it to the SDK.
+ */
+
+/** Summarize with a completion prompt, for backends without a summarization model. */
+function summarizeWithPrompt(adapter) {
+  return (text, options = {}, ctx) =>
+    adapter.complete(
+      {
+        system: 'You summarize text accurately and concisely. Never add facts that are not in the text.',
+        prompt: `${options.instructions || 'Summarize the following text'} in at most ${options.maxWords || 80} words.\n\nTEXT:\n${text}`,
+        temperature: 0,
+      },
+      ctx
+    );
+}
+
+/** Classify with a completion prompt: the model names one label, which gets score 1. */
+function classifyWithPrompt(adapter) {
+  return async (text, labels, ctx) => {
+    const reply = await adapter.complete(
+      {
+        system: 'You are a text classifier. Reply with exactly one of the given labels and nothing else.',
+        prompt: `Labels: ${labels.join(', ')}\n\nTEXT:\n${text}\n\nLabel:`,
+        temperature: 0,
+        maxTokens: 10,
+      },
+      ctx
+    );
+    const answer = reply.trim().toLowerCase();
+    const label = labels.find((l) => answer === l.toLowerCase()) || labels.find((l) => answer.includes(l.toLowerCase()));
+    if (!label) throw new Error(`Model replied with an unknown label: "${reply.slice(0, 40)}"`);
+    return { label, scores: Object.fromEntries(labels.map((l) => [l, l === label ? 1 : 0])) };
+  };
+}
+
+/** Timeouts, rate limits, server errors and dropped connections are worth another try. */
+function isRetryable(err) {
+  if (err?.code === 'ETIMEDOUT') return true;
+  const status = err?.status ?? err?.httpResponse?.status;
+  if (status) return status === 429 || status >= 500;
+  return err instanceof TypeError; // fetch() network failure
+}
+
+function withTimeout(fn, timeoutMs) {
+  const controller = new AbortController();
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(Object.assign(new Error(`LLM request timed out after ${timeoutMs}ms`), { code: 'ETIMEDOUT' }));
+    }, timeoutMs);
+  });
+  return Promise.race([fn({ signal: controller.signal }), timeout]).finally(() => clearTimeout(timer));
+}
+
+async function callWithRetries(name, fn, { timeoutMs, retries }) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(fn, timeoutMs);
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err)) throw err;
+      console.warn(`[LLM] ${name} failed (${err.message}); retry ${attempt + 1}/${retries}`);
+      await new Promise((r) => setTimeout(r, BACKOFF_MS * 2 ** attempt));
+    }
+  }
+}
+
+/** Build the configured adapter, or null when no provider is configured. */
+function createAdapter(options) {
+  const env = process.env;
+  // VITE_-prefixed keys are exposed to the browser bundle, so they are no longer read here
+  for (const name of ['GEMINI_API_KEY', 'HUGGINGFACE_API_KEY']) {
+    if (env[`VITE_${name}`] && !env[name]) {
+      console.warn(`[LLM] VITE_${name} is ignored; rename it to ${name} and remove it from the client env`);
+    }
+  }
+  const geminiKey = options.geminiApiKey || env.GEMINI_API_KEY;
+  const openaiKey = options.openaiApiKey || env.OPENAI_API_KEY;
+  const hfKey = options.huggingfaceApiKey || env.HUGGINGFACE_API_KEY;
+  const localUrl = options.localUrl || env.LOCAL_LLM_URL;
+  const model = options.model || env.LLM_MODEL;
+
+  const kind =
+    options.provider ||
+    env.LLM_PROVIDER ||
+    (geminiKey ? 'gemini' : openaiKey ? 'openai' : hfKey ? 'huggingface' : localUrl ? 'local' : 'none');
+
+  switch (kind) {
+    case 'gemini':
+      return geminiKey ? createGeminiProvider({ apiKey: geminiKey, model }) : null;
+    case 'openai':
+      return openaiKey ? createOpenAiProvider({ apiKey: openaiKey, model }) : null;
+    case 'huggingface':
+      return hfKey ? createHuggingFaceProvider({ apiKey: hfKey, model }) : null;
+    case 'local':
+      return localUrl
+        ? createOpenAiProvider({ name: 'local', baseURL: localUrl, apiKey: env.LOCAL_LLM_API_KEY, model })
+        : null;
+    case 'mock':
+      return createMockProvider(options.mock);
+    case 'none':
+      return null;
+    default:
+      console.warn(`[LLM] Unknown LLM_PROVIDER "${kind}"; LLM features disabled.`);
+      return null;
+  }
+}
+
+/**
+ * Create the configured provider, or null when none is configured (callers then
+ * use their template or heuristic fallback). Options override the env settings.
+ * @returns {LlmProvider|null}
+ */
+export function createLlmProvider(options = {}) {
+  const adapter = createAdapter(options);
+  if (!adapter) {
+    console.log('[LLM] No LLM provider configured; using non-LLM fallbacks');
+    return null;
+  }
+
+  const settings = {
+    timeoutMs: options.timeoutMs ?? Number(process.env.LLM_TIMEOUT_MS || DEFAULT_TIMEOUT_MS),
+    retries: options.retries ?? Number(process.env.LLM_RETRIES ?? DEFAULT_RETRIES),
+  };
+  const summarize = adapter.summarize ? adapter.summarize.bind(adapter) : summarizeWithPrompt(adapter);
+  const classify = adapter.classify ? adapter.classify.bind(adapter) : classifyWithPrompt(adapter);
+
+  console.log(`[LLM] Using ${adapter.name} provider`);
+
+  return {
+    name: adapter.name,
+    complete: (request) => callWithRetries(adapter.name, (ctx) => adapter.complete(request, ctx), settings),
+    summarize: (text, opts = {}) => callWithRetries(adapter.name, (ctx) => summarize(text, opts, ctx), settings),
+    classify: (text, labels) => callWithRetries(adapter.name, (ctx) => classify(text, labels, ctx), settings),
+  };
+}
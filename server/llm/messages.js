@@ -0,0 +1,7 @@
+/** Messages for a completion request, with `system` and `prompt` folded in. */
+export function toMessages(request) {
+  const messages = [...(request.messages || [])];
+  if (request.prompt) messages.push({ role: 'user', content: request.prompt });
+  if (request.system) messages.unshift({ role: 'system', content: request.system });
+  return messages;
+}
@@ -0,0 +1,37 @@
+/**
+ * Deterministic provider for tests and offline demos: no network, same output
+ * for the same input.
+ *   complete   next entry of `responses` (cycling), else "{}" for JSON requests
+ *              and an echo of the last user message otherwise
+ *   summarize  the first maxWords words of the text
+ *   classify   the first label that appears in the text, else the first label
+ */
+
+export function createMockProvider({ responses = [] } = {}) {
+  let next = 0;
+
+  return {
+    name: 'mock',
+    async complete(request) {
+      if (responses.length) return responses[next++ % responses.length];
+      if (request.json) return '{}';
+      const messages = request.messages || [];
+      const last = request.prompt ?? messages.filter((m) => m.role === 'user').at(-1)?.content ?? '';
+      return `[mock] ${last.slice(0, 200)}`;
+    },
+
+    async summarize(text, options = {}) {
+      const words = text.trim().split(/\s+/).filter(Boolean);
+      const maxWords = options.maxWords || 80;
+      return words.length <= maxWords ? words.join(' ') : `${words.slice(0, maxWords).join(' ')}…`;
+    },
+
+    async classify(text, labels) {
+      const lower = text.toLowerCase();
+      // Longest first, so "unsafe" wins over "safe"
+      const byLength = [...labels].sort((a, b) => b.length - a.length);
+      const label = byLength.find((l) => lower.includes(l.toLowerCase())) || labels[0];
+      return { label, scores: Object.fromEntries(labels.map((l) => [l, l === label ? 1 : 0])) };
+    },
+  };
+}
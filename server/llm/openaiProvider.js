@@ -0,0 +1,37 @@
+/**
+ * OpenAI chat completions through the `openai` SDK. With `baseURL` this also
+ * serves any OpenAI-compatible local server (Ollama, llama.cpp, vLLM).
+ */
+
+import { toMessages } from './messages.js';
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export function createOpenAiProvider({ name = 'openai', apiKey, baseURL, model = DEFAULT_MODEL }) {
+  let client;
+  const getClient = async () => {
+    if (!client) {
+      const { default: OpenAI } = await import('openai');
+      // Local servers usually ignore the key, but the SDK requires one. Retries are ours.
+      client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL, maxRetries: 0 });
+    }
+    return client;
+  };
+
+  return {
+    name,
+    async complete(request, { signal }) {
+      const completion = await (await getClient()).chat.completions.create(
+        {
+          model,
+          messages: toMessages(request),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        },
+        { signal }
+      );
+      return completion.choices[0]?.message?.content || '';
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Best-effort patient profile extraction from uploaded record text: labelled
+ * fields ("Age: 72", "DOB: 03/14/1951", "eGFR 28", "Allergies: penicillin"),
+ * the problem list matched against shared/conditions.txt, and pregnancy or
+ * lactation status. Anything not found stays null; the doctor reviews and
+ * corrects the result before the visit.
+ */
+
+import { emptyProfile, findConditions, normalizeProfile } from '../../shared/patientProfile.js';
+
+const LB_PER_KG = 2.20462;
+const CONDITION_HEADER =
+  /^\s*(?:problem list|active problems|problems|past medical history|medical history|pmh|diagnoses|conditions)\s*:?\s*(.*)$/i;
+const NO_KNOWN_ALLERGIES = /\b(?:nkda|nka|no known (?:drug )?allergies|none known)\b/i;
+const YES = /^(?:yes|y|positive|true|confirmed)$/i;
+const NO = /^(?:no|n|negative|false|denies|none)$/i;
+
+/** Whole years between a date of birth and `now`, or null. */
+function ageFromDob(text, now) {
+  const m =
+    text.match(/\b(?:dob|date of birth|born)\s*[:-]?\s*(\d{1,2})\/(\d{1,2})\/(\d{4})\b/i) ||
+    text.match(/\b(?:dob|date of birth|born)\s*[:-]?\s*(\d{4})-(\d{2})-(\d{2})\b/i);
+  if (!m) return null;
+  const [year, month, day] = m[3].length === 4 ? [+m[3], +m[1], +m[2]] : [+m[1], +m[2], +m[3]];
+  const today = new Date(now);
+  let age = today.getFullYear() - year;
+  if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) age--;
+  return age;
+}
+
+function extractAge(text, now) {
+  const m =
+    text.match(/\bage\s*[:-]\s*(\d{1,3})\b/i) ||
+    text.match(/\b(\d{1,3})[- ](?:year|yr)s?[- ]old\b/i) ||
+    text.match(/\b(\d{1,3})\s*y\/?o\b/i);
+  return m ? Number(m[1]) : ageFromDob(text, now);
+}
+
+function extractWeightKg(text) {
+  const m = text.match(/\b(?:weight|wt)\s*[:-]?\s*(\d{1,3}(?:\.\d+)?)\s*(kg|kgs|lb|lbs|pounds)\b/i);
+  if (!m) return null;
+  return /^k/i.test(m[2]) ? Number(m[1]) : Number(m[1]) / LB_PER_KG;
+}
+
+/** "Pregnant: yes", "Pregnancy status: negative", "not pregnant", "24 weeks pregnant". */
+function extractStatus(text, labels) {
+  const label = new RegExp(`\\b(?:${labels})(?:\\s+status)?\\s*[:?-]\\s*(\\w+)`, 'i').exec(text);
+  if (label && YES.test(label[1])) return true;
+  if (label && NO.test(label[1])) return false;
+  if (new RegExp(`\\b(?:not|denies|no)\\s+(?:currently\\s+)?(?:${labels})\\b`, 'i').test(text)) return false;
+  if (new RegExp(`\\b(?:currently|is|weeks?)\\s+(?:${labels})\\b`, 'i').test(text)) return true;
+  return null;
+}
+
+/** Allergy list from an "Allergies:" line, reactions in parentheses or after a dash dropped. */
+function extractAllergies(text) {
+  const m = text.match(/\b(?:drug\s+)?allerg(?:ies|y)\s*[:-]\s*([^\n]+)/i);
+  if (!m || NO_KNOWN_ALLERGIES.test(m[1])) return [];
+  return m[1]
+    .split(/[,;]|\band\b/i)
+    .map((s) => s.replace(/\(.*?\)/g, '').replace(/\s[-–:].*$/, '').trim())
+    .filter((s) => s && s.length <= 60);
+}
+
+/** Conditions from the problem list section when there is one, else from the whole text. */
+function extractConditions(text, conditions) {
+  const lines = text.split(/\r?\n/);
+  const section = [];
+  for (let i = 0; i < lines.length; i++) {
+    const header = CONDITION_HEADER.exec(lines[i]);
+    if (!header) continue;
+    section.push(header[1]);
+    // The section runs until a blank line or the next "Label:" heading
+    for (let j = i + 1; j < lines.length && lines[j].trim() && !/^\s*[A-Z][\w /]{2,30}:/.test(lines[j]); j++) {
+      section.push(lines[j]);
+    }
+  }
+  const ids = findConditions(conditions, section.length ? section.join('\n') : text);
+  return ids.map((id) => conditions.displayNames.get(id) || id);
+}
+
+function extractHepaticImpairment(text) {
+  const m = text.match(/\bchild[- ]pugh\s*(?:class|score)?\s*[:-]?\s*([abc])\b/i);
+  return m ? { a: 'mild', b: 'moderate', c: 'severe' }[m[1].toLowerCase()] : null;
+}
+
+/**
+ * @param {string} text  Extracted record text
+ * @param {{ conditions: import('../../shared/patientProfile').ConditionTable, now?: number }} options
+ * @returns {import('../../shared/patientProfile').PatientProfile}
+ */
+export function extractPatientProfile(text, { conditions, now = Date.now() }) {
+  if (!text || typeof text !== 'string') return emptyProfile();
+  const sex = text.match(/\b(?:sex|gender)\s*[:-]\s*(female|male|f|m)\b/i)?.[1].toLowerCase();
+  const egfr = text.match(/\begfr\b[^\d\n]{0,25}(\d{1,3}(?:\.\d+)?)/i)?.[1];
+
+  return normalizeProfile({
+    age: extractAge(text, now),
+    sex: sex === 'f' ? 'female' : sex === 'm' ? 'male' : sex,
+    weightKg: extractWeightKg(text),
+    allergies: extractAllergies(text),
+    conditions: extractConditions(text, conditions),
+    egfr: egfr && Number(egfr),
+    hepaticImpairment: extractHepaticImpairment(text),
+    pregnant: extractStatus(text, 'pregnant|pregnancy'),
+    lactating: extractStatus(text, 'breastfeeding|breast-feeding|lactating|nursing'),
+  });
+}
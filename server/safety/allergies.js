@@ -0,0 +1,131 @@
+/**
+ * Drug–allergy checking against the allergies in a patient profile. An allergy
+ * matches a drug when it names the same drug (any name the lexicon knows) or
+ * one of the drug's classes ("NSAIDs", "ACE inhibitors", "sulfa"), or when a
+ * cross-reactivity entry in cross-reactivity.json links the allergy's class to
+ * the drug's (penicillin → cephalosporins, sulfonamide antibiotics →
+ * non-antibiotic sulfonamides...).
+ *
+ * Options fall back to env: ALLERGY_CROSS_REACTIVITY_FILE replaces the bundled
+ * table with a site-maintained one in the same format.
+ */
+
+import fs from 'fs';
+import { canonicalDrug, classesOf } from '../../shared/drugClasses.js';
+import { normalizeName } from '../../shared/drugLexicon.js';
+import { INTERACTION_SEVERITIES, severityRank } from '../../shared/interactions.js';
+
+const DEFAULT_FILE = new URL('./cross-reactivity.json', import.meta.url);
+
+/** "ACE inhibitors" → "ace_inhibitor", "NSAIDs" → "nsaid". */
+const classKey = (allergy) =>
+  normalizeName(allergy)
+    .split(' ')
+    .map((word) => word.replace(/s$/, ''))
+    .join('_');
+
+/** Reject entries a typo would silently disable. Returns the list of problems. */
+function validate(table, classTable) {
+  const problems = [];
+  if (!table.version) problems.push('missing "version"');
+  for (const [alias, cls] of Object.entries(table.aliases || {})) {
+    if (!classTable.members.has(cls)) problems.push(`alias "${alias}": unknown class "${cls}"`);
+  }
+  if (!Array.isArray(table.crossReactions)) return [...problems, 'missing "crossReactions" array'];
+  const ids = new Set();
+  table.crossReactions.forEach((entry, i) => {
+    const where = `crossReactions[${i}]${entry?.id ? ` (${entry.id})` : ''}`;
+    if (!entry?.id) problems.push(`${where}: missing id`);
+    else if (ids.has(entry.id)) problems.push(`${where}: duplicate id`);
+    ids.add(entry?.id);
+    if (!INTERACTION_SEVERITIES.includes(entry?.severity)) {
+      problems.push(`${where}: severity must be one of ${INTERACTION_SEVERITIES.join(', ')}`);
+    }
+    for (const side of ['allergy', 'drugs']) {
+      if (!classTable.members.has(entry?.[side])) problems.push(`${where}: unknown class "${entry?.[side]}" in ${side}`);
+    }
+    for (const field of ['note', 'source']) {
+      if (typeof entry?.[field] !== 'string' || !entry[field].trim()) problems.push(`${where}: missing ${field}`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * @param {{
+ *   lexicon: import('../../shared/drugLexicon').DrugLexicon,
+ *   classes: import('../../shared/drugClasses').DrugClassTable,
+ *   file?: string|URL,
+ * }} options
+ */
+export function createAllergyChecker({ lexicon, classes, file }) {
+  const tableFile = file || process.env.ALLERGY_CROSS_REACTIVITY_FILE || DEFAULT_FILE;
+  const table = JSON.parse(fs.readFileSync(tableFile, 'utf8'));
+  const problems = validate(table, classes);
+  if (problems.length) throw new Error(`Invalid allergy cross-reactivity table ${tableFile}: ${problems.join('; ')}`);
+
+  const aliases = new Map(Object.entries(table.aliases || {}).map(([alias, cls]) => [normalizeName(alias), cls]));
+  // Classes whose members cross-react, so an allergy to one member covers the class
+  const allergenClasses = new Set(table.crossReactions.map((entry) => entry.allergy));
+
+  /** Classes an allergy names outright ("sulfa", "NSAIDs"), and those implied by a named drug ("amoxicillin"). */
+  const allergyClasses = (allergy) => {
+    const named = [aliases.get(normalizeName(allergy)), classKey(allergy)].filter((c) => c && classes.members.has(c));
+    const implied = classesOf(classes, lexicon, allergy).filter((c) => allergenClasses.has(c));
+    return { named: new Set(named), implied: new Set(implied) };
+  };
+
+  /** The most severe way one allergy matches a drug, or null. */
+  const matchOne = (drug, generic, drugClasses, allergy) => {
+    if (canonicalDrug(lexicon, allergy) === generic) {
+      return { allergy, drug, reason: 'same_drug', severity: 'contraindicated', note: `${drug} is the documented allergen.` };
+    }
+    const { named, implied } = allergyClasses(allergy);
+    const sameClass = drugClasses.find((c) => named.has(c));
+    if (sameClass) {
+      return {
+        allergy,
+        drug,
+        reason: 'same_class',
+        severity: 'contraindicated',
+        note: `The documented allergy covers the whole class, and ${drug} is a member.`,
+      };
+    }
+
+    let best = null;
+    for (const entry of table.crossReactions) {
+      if (!(named.has(entry.allergy) || implied.has(entry.allergy)) || !drugClasses.includes(entry.drugs)) continue;
+      if (!best || severityRank(entry.severity) < severityRank(best.severity)) best = entry;
+    }
+    if (!best) return null;
+    return {
+      allergy,
+      drug,
+      reason: best.allergy === best.drugs ? 'same_class' : 'cross_reactive',
+      severity: best.severity,
+      note: best.note,
+      source: `${best.source} (cross-reactivity ${table.version}, ${best.id})`,
+    };
+  };
+
+  return {
+    version: table.version,
+    size: table.crossReactions.length,
+
+    /**
+     * Allergies a drug conflicts with, most severe first.
+     * @param {string} drug
+     * @param {string[]} allergies  As written in the profile
+     * @returns {Array<{ allergy: string, drug: string, reason: 'same_drug'|'same_class'|'cross_reactive',
+     *   severity: string, note: string, source?: string }>}
+     */
+    check(drug, allergies) {
+      const generic = canonicalDrug(lexicon, drug);
+      const drugClasses = classesOf(classes, lexicon, drug);
+      return (allergies || [])
+        .map((allergy) => matchOne(drug, generic, drugClasses, allergy))
+        .filter(Boolean)
+        .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseDrugClasses } from '../../shared/drugClasses.js';
+import { parseLexicon } from '../../shared/drugLexicon.js';
+import { createAllergyChecker } from './allergies.js';
+
+const read = (path) => fs.readFileSync(new URL(path, import.meta.url), 'utf8');
+const lexicon = parseLexicon(read('../../shared/drug-lexicon.txt'));
+const classes = parseDrugClasses(read('../../shared/drug-classes.txt'), read('../../shared/drug-ingredients.txt'));
+const allergies = createAllergyChecker({ lexicon, classes });
+
+describe('createAllergyChecker', () => {
+  it('flags the documented allergen under any name', () => {
+    const [match] = allergies.check('Advil', ['ibuprofen']);
+    expect(match).toMatchObject({ allergy: 'ibuprofen', drug: 'Advil', reason: 'same_drug', severity: 'contraindicated' });
+  });
+
+  it('flags a member of an allergy class, including aliases', () => {
+    expect(allergies.check('amoxicillin', ['Penicillin'])[0]).toMatchObject({ reason: 'same_class', severity: 'contraindicated' });
+    expect(allergies.check('amoxicillin', ['PCN'])[0]).toMatchObject({ reason: 'same_class', severity: 'contraindicated' });
+    expect(allergies.check('naproxen', ['NSAIDs'])[0]).toMatchObject({ reason: 'same_class', severity: 'contraindicated' });
+  });
+
+  it('grades cross-reactions from the table and cites the source', () => {
+    const [cephalexin] = allergies.check('Keflex', ['penicillin']);
+    expect(cephalexin).toMatchObject({ reason: 'cross_reactive', severity: 'moderate' });
+    expect(cephalexin.source).toContain(allergies.version);
+
+    expect(allergies.check('meropenem', ['amoxicillin'])[0]).toMatchObject({ reason: 'cross_reactive', severity: 'minor' });
+    expect(allergies.check('furosemide', ['Sulfa'])[0]).toMatchObject({ reason: 'cross_reactive', severity: 'minor' });
+  });
+
+  it('treats an allergy to one NSAID as covering the others', () => {
+    expect(allergies.check('naproxen', ['aspirin'])[0]).toMatchObject({ allergy: 'aspirin', severity: 'major' });
+  });
+
+  it('orders matches most severe first', () => {
+    const matches = allergies.check('amoxicillin', ['cephalexin', 'penicillin']);
+    expect(matches.map((m) => m.allergy)).toEqual(['penicillin', 'cephalexin']);
+  });
+
+  it('returns nothing for unrelated drugs', () => {
+    expect(allergies.check('clopidogrel', ['aspirin'])).toEqual([]);
+    expect(allergies.check('metoprolol', ['penicillin', 'sulfa', 'NSAIDs'])).toEqual([]);
+    expect(allergies.check('metoprolol', [])).toEqual([]);
+  });
+
+  it('rejects a table with unknown classes', () => {
+    const file = new URL('./cross-reactivity.json', import.meta.url);
+    const table = JSON.parse(fs.readFileSync(file, 'utf8'));
+    table.crossReactions[0].drugs = 'not_a_class';
+    const bad = `${process.env.TMPDIR || '/tmp'}/cross-reactivity-${process.pid}.json`;
+    fs.writeFileSync(bad, JSON.stringify(table));
+    try {
+      expect(() => createAllergyChecker({ lexicon, classes, file: bad })).toThrow(/unknown class "not_a_class"/);
+    } finally {
+      fs.rmSync(bad, { force: true });
+    }
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Duplicate therapy detection across the patient's existing medications and
+ * this visit's prescriptions. Two different drugs are duplicates when they
+ * share an active ingredient (combination products are expanded through
+ * shared/drug-ingredients.txt, so Percocet and Tylenol both contain
+ * acetaminophen) or a class listed in duplicate-therapy.json (atorvastatin
+ * and rosuvastatin). A prescription of a drug the patient already takes is a
+ * continuation, not a duplicate.
+ *
+ * Options fall back to env: DUPLICATE_THERAPY_FILE replaces the bundled table
+ * with a site-maintained one in the same format.
+ */
+
+import fs from 'fs';
+import { canonicalDrug, classesOf, ingredientsOf } from '../../shared/drugClasses.js';
+import { INTERACTION_SEVERITIES, severityRank } from '../../shared/interactions.js';
+
+const DEFAULT_FILE = new URL('./duplicate-therapy.json', import.meta.url);
+
+/** Reject entries a typo would silently disable. Returns the list of problems. */
+function validate(table, classTable) {
+  const problems = [];
+  if (!table.version) problems.push('missing "version"');
+  const checkEntry = (entry, where) => {
+    if (!INTERACTION_SEVERITIES.includes(entry?.severity)) {
+      problems.push(`${where}: severity must be one of ${INTERACTION_SEVERITIES.join(', ')}`);
+    }
+    if (typeof entry?.note !== 'string' || !entry.note.trim()) problems.push(`${where}: missing note`);
+  };
+  checkEntry(table.sameIngredient, 'sameIngredient');
+  if (!Array.isArray(table.classes)) return [...problems, 'missing "classes" array'];
+  const ids = new Set();
+  table.classes.forEach((entry, i) => {
+    const where = `classes[${i}]${entry?.id ? ` (${entry.id})` : ''}`;
+    if (!entry?.id) problems.push(`${where}: missing id`);
+    else if (ids.has(entry.id)) problems.push(`${where}: duplicate id`);
+    ids.add(entry?.id);
+    if (!classTable.members.has(entry?.class)) problems.push(`${where}: unknown class "${entry?.class}"`);
+    if (typeof entry?.label !== 'string' || !entry.label.trim()) problems.push(`${where}: missing label`);
+    checkEntry(entry, where);
+  });
+  return problems;
+}
+
+/**
+ * @param {{
+ *   lexicon: import('../../shared/drugLexicon').DrugLexicon,
+ *   classes: import('../../shared/drugClasses').DrugClassTable,
+ *   file?: string|URL,
+ * }} options
+ */
+export function createDuplicateTherapyChecker({ lexicon, classes, file }) {
+  const tableFile = file || process.env.DUPLICATE_THERAPY_FILE || DEFAULT_FILE;
+  const table = JSON.parse(fs.readFileSync(tableFile, 'utf8'));
+  const problems = validate(table, classes);
+  if (problems.length) throw new Error(`Invalid duplicate therapy table ${tableFile}: ${problems.join('; ')}`);
+
+  /** Drugs by canonical generic; a prescription wins over the same drug already on the list. */
+  const candidates = (prescribed, existing) => {
+    const byGeneric = new Map();
+    const add = (name, from) => {
+      const generic = canonicalDrug(lexicon, name);
+      if (byGeneric.has(generic)) return;
+      byGeneric.set(generic, {
+        name,
+        from,
+        ingredients: ingredientsOf(classes, lexicon, name),
+        classes: classesOf(classes, lexicon, name),
+      });
+    };
+    prescribed.filter(Boolean).forEach((name) => add(name, 'prescribed'));
+    existing.filter(Boolean).forEach((name) => add(name, 'existing'));
+    return [...byGeneric.values()];
+  };
+
+  /** Two or more drugs, at least one of them prescribed in this visit. */
+  const isDuplicate = (group) => group.length > 1 && group.some((c) => c.from === 'prescribed');
+
+  return {
+    version: table.version,
+    size: table.classes.length,
+
+    /**
+     * Groups of duplicate drugs, most severe first. Each drug keeps the name
+     * it was given under.
+     * @param {{ prescribed: string[], existing?: string[] }} drugs
+     * @returns {Array<{ id: string, kind: 'ingredient'|'class', label: string, drugs: string[],
+     *   prescribed: string[], severity: string, note: string }>}
+     */
+    check({ prescribed, existing = [] }) {
+      const drugs = candidates(prescribed, existing);
+      const found = [];
+
+      const byIngredient = new Map();
+      for (const drug of drugs) {
+        for (const ingredient of drug.ingredients) {
+          if (!byIngredient.has(ingredient)) byIngredient.set(ingredient, []);
+          byIngredient.get(ingredient).push(drug);
+        }
+      }
+      const ingredientGroups = [...byIngredient].filter(([, group]) => isDuplicate(group));
+      for (const [ingredient, group] of ingredientGroups) {
+        const { severity, note } = table.sameIngredient;
+        found.push({ id: 'same-ingredient', kind: 'ingredient', label: ingredient, group, severity, note });
+      }
+
+      for (const entry of table.classes) {
+        const group = drugs.filter((drug) => drug.classes.includes(entry.class));
+        if (!isDuplicate(group)) continue;
+        // Already reported as a shared ingredient (lisinopril and Zestoretic)
+        if (ingredientGroups.some(([, shared]) => group.every((drug) => shared.includes(drug)))) continue;
+        found.push({ id: entry.id, kind: 'class', label: entry.label, group, severity: entry.severity, note: entry.note });
+      }
+
+      return found
+        .map(({ group, ...duplicate }) => ({
+          ...duplicate,
+          drugs: group.map((drug) => drug.name),
+          prescribed: group.filter((drug) => drug.from === 'prescribed').map((drug) => drug.name),
+        }))
+        .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseDrugClasses } from '../../shared/drugClasses.js';
+import { parseLexicon } from '../../shared/drugLexicon.js';
+import { createDuplicateTherapyChecker } from './duplicates.js';
+
+const read = (path) => fs.readFileSync(new URL(path, import.meta.url), 'utf8');
+const lexicon = parseLexicon(read('../../shared/drug-lexicon.txt'));
+const classes = parseDrugClasses(read('../../shared/drug-classes.txt'), read('../../shared/drug-ingredients.txt'));
+const duplicates = createDuplicateTherapyChecker({ lexicon, classes });
+
+describe('createDuplicateTherapyChecker', () => {
+  it('flags two drugs of a listed class', () => {
+    const [statin] = duplicates.check({ prescribed: ['rosuvastatin'], existing: ['atorvastatin'] });
+    expect(statin).toMatchObject({
+      id: 'statin',
+      kind: 'class',
+      drugs: ['rosuvastatin', 'atorvastatin'],
+      prescribed: ['rosuvastatin'],
+      severity: 'major',
+    });
+  });
+
+  it('matches brand names and drugs prescribed together in the visit', () => {
+    const [nsaid] = duplicates.check({ prescribed: ['Advil', 'naproxen'] });
+    expect(nsaid).toMatchObject({ id: 'nsaid', drugs: ['Advil', 'naproxen'], prescribed: ['Advil', 'naproxen'] });
+  });
+
+  it('flags combination products sharing an ingredient', () => {
+    const [shared] = duplicates.check({ prescribed: ['Percocet'], existing: ['Tylenol'] });
+    expect(shared).toMatchObject({ id: 'same-ingredient', kind: 'ingredient', label: 'acetaminophen', drugs: ['Percocet', 'Tylenol'] });
+  });
+
+  it('does not repeat a class group already reported as a shared ingredient', () => {
+    const found = duplicates.check({ prescribed: ['Zestoretic'], existing: ['lisinopril'] });
+    expect(found.map((d) => d.id)).toEqual(['same-ingredient']);
+
+    const withEnalapril = duplicates.check({ prescribed: ['Zestoretic'], existing: ['lisinopril', 'enalapril'] });
+    expect(withEnalapril.map((d) => d.id).sort()).toEqual(['ace-inhibitor', 'same-ingredient']);
+  });
+
+  it('treats the same drug under another name as a continuation', () => {
+    expect(duplicates.check({ prescribed: ['atorvastatin'], existing: ['Lipitor'] })).toEqual([]);
+  });
+
+  it('needs at least one drug from this visit', () => {
+    expect(duplicates.check({ prescribed: [], existing: ['atorvastatin', 'rosuvastatin'] })).toEqual([]);
+  });
+
+  it('ignores unrelated drugs and classes left out of the table', () => {
+    expect(duplicates.check({ prescribed: ['metoprolol'], existing: ['lisinopril'] })).toEqual([]);
+    expect(duplicates.check({ prescribed: ['clopidogrel'], existing: ['aspirin'] })).toEqual([]);
+  });
+});
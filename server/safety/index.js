@@ -0,0 +1,301 @@
+/**
+ * Declarative safety rules for the post-visit check. Rules live in JSON files
+ * under rules/ (one topic per file) and are written over therapeutic classes
+ * from shared/drug-classes.txt, so adding a rule needs no route changes.
+ *
+ * A rule fires when every condition in `when` is met by a different drug and
+ * at least one of those drugs was prescribed in this visit. Each condition
+ * names the matched drug (`as`), lists `class` or `drug` IDs, and may restrict
+ * where the drug comes from with `in`: "prescribed", "existing" or "any"
+ * (default). An optional `patient` object adds conditions on the patient
+ * profile, all of which must hold: `ageAtLeast`, `egfrBelow`, `weightBelow`
+ * (kg), `conditions` (any of, IDs from shared/conditions.txt),
+ * `hepaticImpairment` (any of), `pregnant`, `lactating`; unknown profile
+ * values never match. `clinicianNote` and `patientMessage` may use {name} for
+ * the matched drug, {name.duration} for its prescribed duration, and
+ * {patient.age}, {patient.egfr} or {patient.weightKg} when the rule has the
+ * matching `patient` condition, so the value is known. `supersedes` lists rule
+ * IDs to drop when this rule fires (e.g. a three-drug rule over its two-drug
+ * subset).
+ *
+ * Every prescribed drug is also checked against the profile's allergies,
+ * including cross-reactivity (see allergies.js), and the whole medication list
+ * for duplicate therapy (see duplicates.js).
+ *
+ * Options fall back to env: SAFETY_RULES_DIR replaces the bundled rules/
+ * directory with a site-maintained one in the same format.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { canonicalDrug, classesOf } from '../../shared/drugClasses.js';
+import { INTERACTION_SEVERITIES, severityRank } from '../../shared/interactions.js';
+import { conditionId, HEPATIC_IMPAIRMENT, normalizeProfile } from '../../shared/patientProfile.js';
+
+const DEFAULT_RULES_DIR = fileURLToPath(new URL('./rules', import.meta.url));
+const SOURCES = ['prescribed', 'existing', 'any'];
+const PLACEHOLDER = /\{([a-z_]+)(?:\.([a-zA-Z]+))?\}/g;
+/** Profile fields a message may show, and the `patient` condition that guarantees each is known. */
+const PATIENT_FIELDS = { age: 'ageAtLeast', egfr: 'egfrBelow', weightKg: 'weightBelow' };
+
+/** Validators for the keys of a rule's `patient` object. */
+const PATIENT_CONDITIONS = {
+  ageAtLeast: (v) => Number.isFinite(v),
+  egfrBelow: (v) => Number.isFinite(v),
+  weightBelow: (v) => Number.isFinite(v),
+  conditions: (v, conditions) => Array.isArray(v) && v.length > 0 && v.every((id) => conditions.displayNames.has(id)),
+  hepaticImpairment: (v) => Array.isArray(v) && v.length > 0 && v.every((h) => HEPATIC_IMPAIRMENT.includes(h)),
+  pregnant: (v) => typeof v === 'boolean',
+  lactating: (v) => typeof v === 'boolean',
+};
+
+/** "the prescribed 7 days" when the sig parser captured a duration, otherwise generic wording. */
+function describeDuration(prescription) {
+  const days = prescription?.sig?.duration?.days;
+  if (days) return `the prescribed ${days} day${days === 1 ? '' : 's'}`;
+  return 'the prescribed duration';
+}
+
+/** "a and b", "a, b and c". */
+function listNames(names) {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names.at(-1)}` : names.join('');
+}
+
+/** Reject rules a typo would silently disable. Returns the list of problems. */
+function validate(rules, classTable, conditions) {
+  const problems = [];
+  const ids = new Set();
+  for (const { rule, file } of rules) {
+    const where = `${file}: ${rule?.id || 'rule without id'}`;
+    if (!rule?.id) problems.push(`${where}: missing id`);
+    else if (ids.has(rule.id)) problems.push(`${where}: duplicate id`);
+    ids.add(rule?.id);
+    if (!INTERACTION_SEVERITIES.includes(rule?.severity)) {
+      problems.push(`${where}: severity must be one of ${INTERACTION_SEVERITIES.join(', ')}`);
+    }
+    for (const field of ['type', 'description']) {
+      if (typeof rule?.[field] !== 'string' || !rule[field].trim()) problems.push(`${where}: missing ${field}`);
+    }
+    if (!rule?.clinicianNote && !rule?.patientMessage) problems.push(`${where}: needs clinicianNote or patientMessage`);
+
+    const names = new Set();
+    if (!Array.isArray(rule?.when) || !rule.when.length) {
+      problems.push(`${where}: "when" needs at least one condition`);
+      continue;
+    }
+    rule.when.forEach((cond, i) => {
+      const at = `${where}: when[${i}]`;
+      if (!cond?.as) problems.push(`${at}: missing "as"`);
+      else if (names.has(cond.as)) problems.push(`${at}: duplicate name "${cond.as}"`);
+      names.add(cond?.as);
+      const listed = cond?.class ?? cond?.drug;
+      if (!!cond?.class === !!cond?.drug || !Array.isArray(listed) || !listed.length) {
+        problems.push(`${at}: needs exactly one of a non-empty "class" or "drug" list`);
+      } else if (cond.class) {
+        for (const c of cond.class) if (!classTable.members.has(c)) problems.push(`${at}: unknown class "${c}"`);
+      }
+      if (cond?.in && !SOURCES.includes(cond.in)) problems.push(`${at}: "in" must be one of ${SOURCES.join(', ')}`);
+    });
+    for (const [key, value] of Object.entries(rule.patient || {})) {
+      if (!PATIENT_CONDITIONS[key]) problems.push(`${where}: unknown patient condition "${key}"`);
+      else if (!PATIENT_CONDITIONS[key](value, conditions)) problems.push(`${where}: invalid patient.${key}`);
+    }
+    for (const field of ['clinicianNote', 'patientMessage']) {
+      for (const [placeholder, name, sub] of String(rule[field] || '').matchAll(PLACEHOLDER)) {
+        const known = name === 'patient' ? Object.hasOwn(PATIENT_FIELDS, sub) : names.has(name) && (!sub || sub === 'duration');
+        if (!known) problems.push(`${where}: ${field} uses unknown placeholder ${placeholder}`);
+        else if (name === 'patient' && rule.patient?.[PATIENT_FIELDS[sub]] === undefined) {
+          problems.push(`${where}: ${field} uses ${placeholder} without patient.${PATIENT_FIELDS[sub]}`);
+        }
+      }
+    }
+  }
+  for (const { rule, file } of rules) {
+    for (const id of rule?.supersedes || []) {
+      if (!ids.has(id)) problems.push(`${file}: ${rule.id}: supersedes unknown rule "${id}"`);
+    }
+  }
+  return problems;
+}
+
+/** Rules from every *.json file in `dir`, in file name order. */
+function loadRules(dir) {
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .sort()
+    .flatMap((file) => {
+      const parsed = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      return (Array.isArray(parsed?.rules) ? parsed.rules : [null]).map((rule) => ({ rule, file }));
+    });
+}
+
+/**
+ * @param {{
+ *   lexicon: import('../../shared/drugLexicon').DrugLexicon,
+ *   classes: import('../../shared/drugClasses').DrugClassTable,
+ *   conditions: import('../../shared/patientProfile').ConditionTable,
+ *   allergies: ReturnType<typeof import('./allergies.js').createAllergyChecker>,
+ *   duplicates: ReturnType<typeof import('./duplicates.js').createDuplicateTherapyChecker>,
+ *   dir?: string,
+ * }} options
+ */
+export function createSafetyRuleEngine({ lexicon, classes, conditions, allergies, duplicates, dir }) {
+  const rulesDir = dir || process.env.SAFETY_RULES_DIR || DEFAULT_RULES_DIR;
+  const loaded = loadRules(rulesDir);
+  const problems = validate(loaded, classes, conditions);
+  if (problems.length) throw new Error(`Invalid safety rules in ${rulesDir}: ${problems.join('; ')}`);
+
+  const rules = loaded.map(({ rule }) => ({
+    ...rule,
+    when: rule.when.map((cond) => ({
+      ...cond,
+      in: cond.in || 'any',
+      drug: cond.drug && new Set(cond.drug.map((d) => canonicalDrug(lexicon, d))),
+      class: cond.class && new Set(cond.class),
+    })),
+  }));
+
+  const matches = (cond, candidate) => {
+    if (cond.in !== 'any' && cond.in !== candidate.from) return false;
+    if (cond.drug) return cond.drug.has(candidate.generic);
+    return candidate.classes.some((c) => cond.class.has(c));
+  };
+
+  /** One distinct drug per condition, at least one of them prescribed (backtracking), or null. */
+  const bind = (conds, candidates, picked = []) => {
+    if (!conds.length) return picked.some((c) => c.from === 'prescribed') ? picked : null;
+    const [cond, ...rest] = conds;
+    for (const candidate of candidates) {
+      if (picked.some((c) => c.generic === candidate.generic) || !matches(cond, candidate)) continue;
+      const match = bind(rest, candidates, [...picked, candidate]);
+      if (match) return match;
+    }
+    return null;
+  };
+
+  /** Whether the profile meets every `patient` condition of a rule. */
+  const patientMatches = (rule, patient, patientConditions) =>
+    Object.entries(rule.patient || {}).every(([key, value]) => {
+      switch (key) {
+        case 'ageAtLeast':
+          return patient.age != null && patient.age >= value;
+        case 'egfrBelow':
+          return patient.egfr != null && patient.egfr < value;
+        case 'weightBelow':
+          return patient.weightKg != null && patient.weightKg < value;
+        case 'conditions':
+          return value.some((id) => patientConditions.has(id));
+        case 'hepaticImpairment':
+          return value.includes(patient.hepaticImpairment);
+        default:
+          return patient[key] === value;
+      }
+    });
+
+  const fill = (template, bound, patient) =>
+    template &&
+    template.replace(PLACEHOLDER, (_, name, sub) => {
+      if (name === 'patient') return String(patient[sub]);
+      return sub ? describeDuration(bound[name].prescription) : bound[name].name;
+    });
+
+  const allergyRisk = ({ allergy, drug, reason, severity, note }) => ({
+    type: 'allergy',
+    ruleId: `allergy:${reason}`,
+    severity,
+    description:
+      reason === 'cross_reactive'
+        ? `${drug} may cross-react with the documented ${allergy} allergy`
+        : `${drug} prescribed despite a documented ${allergy} allergy`,
+    drugs: [drug],
+    clinicianNote: `Documented allergy to ${allergy}: ${note} Confirm the reaction history or choose an alternative.`,
+    patientMessage: `Your records list an allergy to ${allergy}. Do not start ${drug} until your provider confirms it is safe for you.`,
+  });
+
+  const duplicateRisk = ({ id, kind, label, drugs, prescribed, severity, note }) => {
+    const names = listNames(drugs);
+    return {
+      type: 'duplicate_therapy',
+      ruleId: `duplicate:${id}`,
+      severity,
+      description:
+        kind === 'ingredient'
+          ? `${names} ${drugs.length > 2 ? 'all' : 'both'} contain ${label}`
+          : `More than one ${label}: ${names}`,
+      drugs,
+      clinicianNote: `Duplicate therapy: ${note}`,
+      patientMessage:
+        kind === 'ingredient'
+          ? `Your medicines ${names} contain the same ingredient (${label}). Do not take them together unless your provider confirms the total dose.`
+          : `Your medicines ${names} are the same kind of medicine (${label}). Ask your provider which one to keep taking before you start ${listNames(prescribed)}.`,
+    };
+  };
+
+  return {
+    size: rules.length,
+    dir: rulesDir,
+
+    /**
+     * Risks raised by this visit's prescriptions against each other, the
+     * patient's existing medications and the patient profile, most severe first.
+     * @param {{
+     *   prescriptions: Array<{ drug: string, sig?: object }>,
+     *   existingDrugs?: string[],
+     *   patient?: import('../../shared/patientProfile').PatientProfile|null,
+     * }} visit
+     */
+    evaluate({ prescriptions, existingDrugs = [], patient }) {
+      const profile = normalizeProfile(patient);
+      const patientConditions = new Set(profile.conditions.map((name) => conditionId(conditions, name)));
+      const candidate = (name, from, prescription) => ({
+        name,
+        from,
+        prescription,
+        generic: canonicalDrug(lexicon, name),
+        classes: classesOf(classes, lexicon, name),
+      });
+      // Prescribed drugs first, so {name.duration} refers to this visit's sig when both match
+      const candidates = [
+        ...prescriptions.filter((p) => p?.drug).map((p) => candidate(p.drug, 'prescribed', p)),
+        ...existingDrugs.filter(Boolean).map((d) => candidate(d, 'existing')),
+      ];
+
+      const fired = [];
+      for (const rule of rules) {
+        if (!patientMatches(rule, profile, patientConditions)) continue;
+        const match = bind(rule.when, candidates);
+        if (!match) continue;
+        const bound = Object.fromEntries(rule.when.map((cond, i) => [cond.as, match[i]]));
+        fired.push({ rule, bound, drugs: match.map((c) => c.name) });
+      }
+
+      const allergyRisks = candidates
+        .filter((c) => c.from === 'prescribed')
+        .flatMap((c) => allergies.check(c.name, profile.allergies).map(allergyRisk));
+
+      const duplicateRisks = duplicates
+        .check({
+          prescribed: candidates.filter((c) => c.from === 'prescribed').map((c) => c.name),
+          existing: candidates.filter((c) => c.from === 'existing').map((c) => c.name),
+        })
+        .map(duplicateRisk);
+
+      const superseded = new Set(fired.flatMap(({ rule }) => rule.supersedes || []));
+      return fired
+        .filter(({ rule }) => !superseded.has(rule.id))
+        .map(({ rule, bound, drugs }) => ({
+          type: rule.type,
+          ruleId: rule.id,
+          severity: rule.severity,
+          description: rule.description,
+          drugs,
+          clinicianNote: fill(rule.clinicianNote, bound, profile),
+          patientMessage: fill(rule.patientMessage, bound, profile),
+        }))
+        .concat(allergyRisks, duplicateRisks)
+        .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { parseDrugClasses } from '../../shared/drugClasses.js';
+import { parseLexicon } from '../../shared/drugLexicon.js';
+import { parseConditions } from '../../shared/patientProfile.js';
+import { createAllergyChecker } from './allergies.js';
+import { createDuplicateTherapyChecker } from './duplicates.js';
+import { createSafetyRuleEngine } from './index.js';
+
+const read = (file) => fs.readFileSync(new URL(file, import.meta.url), 'utf8');
+const lexicon = parseLexicon(read('../../shared/drug-lexicon.txt'));
+const classes = parseDrugClasses(read('../../shared/drug-classes.txt'), read('../../shared/drug-ingredients.txt'));
+const options = {
+  lexicon,
+  classes,
+  conditions: parseConditions(read('../../shared/conditions.txt')),
+  allergies: createAllergyChecker({ lexicon, classes }),
+  duplicates: createDuplicateTherapyChecker({ lexicon, classes }),
+};
+const engine = createSafetyRuleEngine(options);
+
+const ruleIds = (visit) => engine.evaluate(visit).map((risk) => risk.ruleId);
+
+describe('createSafetyRuleEngine', () => {
+  describe('weightBelow', () => {
+    it('fires under the weight and shows it in the note', () => {
+      const [risk] = engine.evaluate({ prescriptions: [{ drug: 'Tylenol' }], patient: { weightKg: 42 } });
+      expect(risk).toMatchObject({ ruleId: 'acetaminophen-low-weight', type: 'weight_dosing', drugs: ['Tylenol'] });
+      expect(risk.clinicianNote).toMatch(/^Weight 42 kg: /);
+    });
+
+    it('does not fire at or above the weight, or when the weight is unknown', () => {
+      expect(ruleIds({ prescriptions: [{ drug: 'acetaminophen' }], patient: { weightKg: 50 } })).toEqual([]);
+      expect(ruleIds({ prescriptions: [{ drug: 'acetaminophen' }], patient: { weightKg: null } })).toEqual([]);
+      expect(ruleIds({ prescriptions: [{ drug: 'acetaminophen' }] })).toEqual([]);
+    });
+  });
+
+  describe('rule validation', () => {
+    let dir;
+    afterEach(() => {
+      if (dir) fs.rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    });
+
+    const withRule = (rule) => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'safety-rules-'));
+      const base = {
+        id: 'test-rule',
+        type: 'test',
+        severity: 'minor',
+        description: 'Test rule',
+        when: [{ as: 'drug', drug: ['acetaminophen'], in: 'prescribed' }],
+        ...rule,
+      };
+      fs.writeFileSync(path.join(dir, 'test.json'), JSON.stringify({ rules: [base] }));
+      return () => createSafetyRuleEngine({ ...options, dir });
+    };
+
+    it.each([
+      ['{patient.age}', 'ageAtLeast'],
+      ['{patient.egfr}', 'egfrBelow'],
+      ['{patient.weightKg}', 'weightBelow'],
+    ])('rejects %s without patient.%s', (placeholder, condition) => {
+      const create = withRule({ clinicianNote: `Value ${placeholder}: check {drug}.` });
+      expect(create).toThrow(`uses ${placeholder} without patient.${condition}`);
+    });
+
+    it('accepts a patient placeholder with its condition', () => {
+      const create = withRule({ patient: { weightBelow: 60 }, patientMessage: 'At {patient.weightKg} kg, take less {drug}.' });
+      expect(create).not.toThrow();
+    });
+
+    it('rejects unknown patient placeholders and an invalid weightBelow', () => {
+      expect(withRule({ clinicianNote: '{patient.height} cm' })).toThrow('unknown placeholder {patient.height}');
+      expect(withRule({ patient: { weightBelow: '60' }, clinicianNote: '{drug}' })).toThrow('invalid patient.weightBelow');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Create a clinician login.
+ *
+ *   npm run create-clinician -- <username>
+ *
+ * The password is read from CLINICIAN_PASSWORD, or prompted for on stdin.
+ */
+
+import readline from 'readline/promises';
+import dotenv from 'dotenv';
+import { createStorage } from '../storage/index.js';
+import { hashPassword } from '../auth/index.js';
+
+dotenv.config({ path: '.env.local' });
+
+const username = process.argv[2];
+if (!username) {
+  console.error('Usage: npm run create-clinician -- <username>');
+  process.exit(1);
+}
+
+let password = process.env.CLINICIAN_PASSWORD;
+if (!password) {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  password = await rl.question(`Password for ${username}: `);
+  rl.close();
+}
+if (!password || password.length < 10) {
+  console.error('Password must be at least 10 characters.');
+  process.exit(1);
+}
+
+const storage = createStorage();
+try {
+  if (await storage.getClinicianByUsername(username)) {
+    console.error(`Clinician "${username}" already exists.`);
+    process.exitCode = 1;
+  } else {
+    await storage.createClinician({ username, passwordHash: await hashPassword(password) });
+    console.log(`Created clinician "${username}".`);
+  }
+} finally {
+  await storage.close();
+}
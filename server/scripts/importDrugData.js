@@ -0,0 +1,224 @@
+/**
+ * Import drug reference data into the local drug database (see server/drugs/localDb.js).
+ *
+ *   npm run import-drug-data -- [--labels <file>...] [--rxnorm <dir>] [--interactions <file>...] [--db <file>]
+ *
+ *   --labels        openFDA bulk label files (drug-label-*.json, unzipped; .json.gz also works)
+ *   --rxnorm        RxNorm release "rrf" directory containing RXNCONSO.RRF and, optionally,
+ *                   RXNREL.RRF (maps brands and salt forms to their ingredients)
+ *   --interactions  CSV with a header row naming the two drugs (drug_a/drug_b, Drug_A/Drug_B
+ *                   or rxcui_a/rxcui_b) and optionally severity (or Level) and description
+ *   --db            Output file; defaults to DRUG_DB_FILE or DATA_DIR/drugs.db
+ *
+ * Re-running an import replaces labels by set ID and adds to the other tables.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { gunzipSync } from 'zlib';
+import dotenv from 'dotenv';
+import { drugDbPath, openDrugDb, RXNORM_TTYS } from '../drugs/localDb.js';
+
+dotenv.config({ path: '.env.local' });
+
+const USAGE =
+  'Usage: npm run import-drug-data -- [--labels <file>...] [--rxnorm <dir>] [--interactions <file>...] [--db <file>]';
+const BATCH_SIZE = 5000;
+
+/** "--labels a b --rxnorm dir" → { labels: ['a', 'b'], rxnorm: ['dir'] } */
+function parseArgs(argv) {
+  const args = {};
+  let current = null;
+  for (const arg of argv) {
+    if (arg.startsWith('--')) {
+      current = arg.slice(2);
+      args[current] ??= [];
+    } else if (current) {
+      args[current].push(arg);
+    } else {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+  }
+  return args;
+}
+
+/** Insert rows in transactions of BATCH_SIZE so large files neither crawl nor hold one huge transaction. */
+function batched(drugDb, insert) {
+  let pending = [];
+  const flush = drugDb.transaction((rows) => rows.forEach(insert));
+  return {
+    add(row) {
+      pending.push(row);
+      if (pending.length >= BATCH_SIZE) {
+        flush(pending);
+        pending = [];
+      }
+    },
+    done() {
+      flush(pending);
+      pending = [];
+    },
+  };
+}
+
+async function* lines(file) {
+  const rl = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const line of rl) if (line) yield line;
+}
+
+function importLabels(drugDb, files) {
+  let imported = 0;
+  for (const file of files) {
+    console.log(`Reading ${file}...`);
+    const raw = fs.readFileSync(file);
+    const json = JSON.parse((file.endsWith('.gz') ? gunzipSync(raw) : raw).toString('utf8'));
+    const results = Array.isArray(json?.results) ? json.results : [];
+    const batch = batched(drugDb, (result) => {
+      if (drugDb.importLabel(result)) imported++;
+    });
+    results.forEach((r) => batch.add(r));
+    batch.done();
+    console.log(`  ${results.length} labels read`);
+  }
+  return imported;
+}
+
+async function importRxnorm(drugDb, dir) {
+  // RXNCONSO.RRF: RXCUI|LAT|TS|LUI|STT|SUI|ISPREF|RXAUI|SAUI|SCUI|SDUI|SAB|TTY|CODE|STR|SRL|SUPPRESS|CVF|
+  const conso = path.join(dir, 'RXNCONSO.RRF');
+  if (!fs.existsSync(conso)) throw new Error(`${conso} not found`);
+  console.log(`Reading ${conso}...`);
+  let names = 0;
+  const nameBatch = batched(drugDb, ([name, rxcui, tty]) => drugDb.importRxnormName(name, rxcui, tty));
+  for await (const line of lines(conso)) {
+    const f = line.split('|');
+    if (f[11] !== 'RXNORM' || f[16] === 'O' || !RXNORM_TTYS.has(f[12])) continue;
+    nameBatch.add([f[14], f[0], f[12]]);
+    names++;
+  }
+  nameBatch.done();
+
+  // RXNREL.RRF: RXCUI1|RXAUI1|STYPE1|REL|RXCUI2|RXAUI2|STYPE2|RELA|RUI|SRUI|SAB|SL|DIR|RG|SUPPRESS|CVF|
+  // Brand (tradename) and precise-ingredient (form) relations link a concept to its ingredient
+  const rel = path.join(dir, 'RXNREL.RRF');
+  let links = 0;
+  if (fs.existsSync(rel)) {
+    console.log(`Reading ${rel}...`);
+    const ingredients = drugDb.ingredientRxcuis();
+    const linkBatch = batched(drugDb, ([rxcui, ingredient]) => drugDb.importIngredient(rxcui, ingredient));
+    for await (const line of lines(rel)) {
+      const f = line.split('|');
+      if (f[10] !== 'RXNORM' || !['has_tradename', 'tradename_of', 'has_form', 'form_of'].includes(f[7])) continue;
+      const [a, b] = [f[0], f[4]];
+      if (ingredients.has(a) === ingredients.has(b)) continue;
+      linkBatch.add(ingredients.has(a) ? [b, a] : [a, b]);
+      links++;
+    }
+    linkBatch.done();
+  } else {
+    console.warn(`${rel} not found; brand names will not map to ingredients`);
+  }
+  return { names, links };
+}
+
+/** Split one CSV line, honouring double-quoted fields. */
+function parseCsvLine(line) {
+  const fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+async function importInteractions(drugDb, files) {
+  let imported = 0;
+  for (const file of files) {
+    console.log(`Reading ${file}...`);
+    let columns = null;
+    const batch = batched(drugDb, (row) => {
+      if (drugDb.importInteraction(row)) imported++;
+    });
+    for await (const line of lines(file)) {
+      const fields = parseCsvLine(line);
+      if (!columns) {
+        const header = fields.map((h) => h.toLowerCase());
+        const find = (...names) => header.findIndex((h) => names.includes(h));
+        columns = {
+          a: find('drug_a', 'rxcui_a', 'drug1', 'name_a'),
+          b: find('drug_b', 'rxcui_b', 'drug2', 'name_b'),
+          severity: find('severity', 'level'),
+          description: find('description', 'mechanism'),
+        };
+        if (columns.a === -1 || columns.b === -1) throw new Error(`${file}: header must name drug_a and drug_b columns`);
+        continue;
+      }
+      batch.add({
+        drugA: fields[columns.a],
+        drugB: fields[columns.b],
+        severity: fields[columns.severity],
+        description: fields[columns.description],
+        source: path.basename(file),
+      });
+    }
+    batch.done();
+  }
+  return imported;
+}
+
+let args;
+try {
+  args = parseArgs(process.argv.slice(2));
+} catch (err) {
+  console.error(`${err.message}\n${USAGE}`);
+  process.exit(1);
+}
+if (!args.labels?.length && !args.rxnorm?.length && !args.interactions?.length) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const file = drugDbPath({ file: args.db?.[0] });
+const drugDb = openDrugDb(file);
+try {
+  if (args.labels?.length) {
+    console.log(`Imported ${importLabels(drugDb, args.labels)} labels.`);
+    drugDb.setMeta('labels_imported_at', new Date().toISOString());
+  }
+  if (args.rxnorm?.length) {
+    const { names, links } = await importRxnorm(drugDb, args.rxnorm[0]);
+    console.log(`Imported ${names} RxNorm names and ${links} ingredient links.`);
+    drugDb.setMeta('rxnorm_imported_at', new Date().toISOString());
+  }
+  if (args.interactions?.length) {
+    console.log(`Imported ${await importInteractions(drugDb, args.interactions)} interaction pairs.`);
+    drugDb.setMeta('interactions_imported_at', new Date().toISOString());
+  }
+  const stats = drugDb.stats();
+  console.log(`${file}: ${stats.labels} labels, ${stats.rxnormNames} RxNorm names, ${stats.interactions} interactions.`);
+} catch (err) {
+  console.error(`Import failed: ${err.message}`);
+  process.exitCode = 1;
+} finally {
+  drugDb.close();
+}
@@ -0,0 +1,112 @@
+/**
+ * Pluggable persistence for parsed patient records, visit sessions,
+ * appointments and login state.
+ *
+ * Any store passed to the routes must implement the async interface below.
+ * `sqlite` (default) writes to a file under DATA_DIR; `memory` keeps the old
+ * process-local behaviour and is handy for local experiments.
+ *
+ * @typedef {Object} PatientRecord
+ * @property {string} id
+ * @property {string|null} text
+ * @property {string[]} drugs
+ * @property {import('../../shared/patientProfile').PatientProfile} profile
+ * @property {string|null} clinicianId  Clinician who uploaded or entered the record
+ * @property {number} createdAt
+ *
+ * @typedef {Object} VisitSessionRecord
+ * @property {string} sessionId
+ * @property {number} createdAt
+ * (plus whatever the post-visit check stored: prescriptions, safetyCheck, notes...)
+ *
+ * @typedef {Object} Appointment
+ * @property {string} id
+ * @property {string} roomName  LiveKit room dedicated to this visit
+ * @property {string|null} recordId  Patient record uploaded for this visit, if any
+ * @property {string|null} clinicianId  Clinician who created the appointment
+ * @property {number} createdAt
+ *
+ * @typedef {Object} Clinician
+ * @property {string} id
+ * @property {string} username
+ * @property {string} passwordHash
+ * @property {number} createdAt
+ *
+ * @typedef {Object} AuthSession
+ * @property {string} idHash  sha256 of the cookie value; the raw ID is never stored
+ * @property {'doctor'|'patient'} role
+ * @property {string|null} clinicianId
+ * @property {string|null} appointmentId  Set for patient sessions
+ * @property {number} createdAt
+ * @property {number} expiresAt
+ *
+ * @typedef {Object} Storage
+ * @property {(record: { text: string|null, drugs: string[], profile?: object, clinicianId?: string|null }) => Promise<PatientRecord>} createPatientRecord
+ * @property {(id: string) => Promise<PatientRecord|null>} getPatientRecord
+ * @property {(id: string, profile: object) => Promise<PatientRecord|null>} updatePatientProfile
+ *   Returns null if the record does not exist or has expired.
+ * @property {(visit: VisitSessionRecord) => Promise<void>} saveVisitSession
+ * @property {(sessionId: string) => Promise<VisitSessionRecord|null>} getVisitSession
+ * @property {(appointment: { recordId?: string|null, clinicianId?: string|null }) => Promise<Appointment>} createAppointment
+ * @property {(id: string) => Promise<Appointment|null>} getAppointment
+ * @property {(clinician: { username: string, passwordHash: string }) => Promise<Clinician>} createClinician
+ * @property {(username: string) => Promise<Clinician|null>} getClinicianByUsername
+ * @property {(session: Omit<AuthSession, 'createdAt'>) => Promise<void>} createAuthSession
+ * @property {(idHash: string) => Promise<AuthSession|null>} getAuthSession
+ * @property {(idHash: string) => Promise<void>} deleteAuthSession
+ * @property {(invite: { nonce: string, appointmentId: string, expiresAt: number }) => Promise<boolean>} markInviteUsed
+ *   Returns false if the nonce was already redeemed.
+ * @property {(now?: number) => Promise<Record<string, number>>} purgeExpired  Counts of deleted rows per kind
+ * @property {() => Promise<void>} close
+ */
+
+import path from 'path';
+import { createMemoryStore } from './memoryStore.js';
+import { createSqliteStore } from './sqliteStore.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build the configured store. Options fall back to env:
+ * STORAGE_DRIVER (sqlite|memory), DATA_DIR, STORAGE_RETENTION_DAYS.
+ * @returns {Storage}
+ */
+export function createStorage(options = {}) {
+  const driver = options.driver || process.env.STORAGE_DRIVER || 'sqlite';
+  const retentionDays = Number(options.retentionDays ?? process.env.STORAGE_RETENTION_DAYS ?? 30);
+  const retentionMs = Math.max(0, retentionDays) * DAY_MS;
+
+  switch (driver) {
+    case 'memory':
+      return createMemoryStore({ retentionMs });
+    case 'sqlite': {
+      const dataDir = options.dataDir || process.env.DATA_DIR || 'data';
+      const file = options.file || path.join(dataDir, 'nexhacks.db');
+      return createSqliteStore({ file, retentionMs });
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "sqlite" or "memory")`);
+  }
+}
+
+/**
+ * Periodically delete expired records. Returns a stop function.
+ * The timer is unref'd so it never keeps the process alive on its own.
+ */
+export function scheduleRetention(storage, intervalMs = 60 * 60 * 1000) {
+  const run = () =>
+    storage
+      .purgeExpired()
+      .then((removed) => {
+        const summary = Object.entries(removed)
+          .filter(([, n]) => n > 0)
+          .map(([kind, n]) => `${n} ${kind}`);
+        if (summary.length) console.log(`[Storage] Purged expired rows: ${summary.join(', ')}`);
+      })
+      .catch((e) => console.warn('[Storage] Retention sweep failed:', e.message));
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
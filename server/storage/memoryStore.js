@@ -0,0 +1,134 @@
+import { randomUUID } from 'crypto';
+import { normalizeProfile } from '../../shared/patientProfile.js';
+
+/**
+ * Process-local store. Nothing survives a restart; use only for development.
+ * @param {{ retentionMs: number }} options
+ * @returns {import('./index.js').Storage}
+ */
+export function createMemoryStore({ retentionMs }) {
+  const patientRecords = new Map();
+  const visitSessions = new Map();
+  const appointments = new Map();
+  const clinicians = new Map(); // key: lower-cased username
+  const authSessions = new Map();
+  const usedInvites = new Map();
+
+  const isExpired = (createdAt, now = Date.now()) => retentionMs > 0 && createdAt + retentionMs < now;
+
+  // Delete every entry matching isGone; returns how many were removed.
+  const sweep = (map, isGone) => {
+    let removed = 0;
+    for (const [key, value] of map) {
+      if (isGone(value)) {
+        map.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  };
+
+  return {
+    async createPatientRecord({ text, drugs, profile, clinicianId }) {
+      const record = {
+        id: randomUUID(),
+        text: text ?? null,
+        drugs: drugs || [],
+        profile: normalizeProfile(profile),
+        clinicianId: clinicianId || null,
+        createdAt: Date.now(),
+      };
+      patientRecords.set(record.id, record);
+      return record;
+    },
+
+    async getPatientRecord(id) {
+      const record = patientRecords.get(id);
+      return record && !isExpired(record.createdAt) ? record : null;
+    },
+
+    async updatePatientProfile(id, profile) {
+      const record = patientRecords.get(id);
+      if (!record || isExpired(record.createdAt)) return null;
+      record.profile = normalizeProfile(profile);
+      return record;
+    },
+
+    async saveVisitSession(visit) {
+      visitSessions.set(visit.sessionId, { ...visit, createdAt: visit.createdAt ?? Date.now() });
+    },
+
+    async getVisitSession(sessionId) {
+      const visit = visitSessions.get(sessionId);
+      return visit && !isExpired(visit.createdAt) ? visit : null;
+    },
+
+    async createAppointment({ recordId, clinicianId }) {
+      const id = randomUUID();
+      const appointment = {
+        id,
+        roomName: `appt-${id}`,
+        recordId: recordId || null,
+        clinicianId: clinicianId || null,
+        createdAt: Date.now(),
+      };
+      appointments.set(id, appointment);
+      return appointment;
+    },
+
+    async getAppointment(id) {
+      const appointment = appointments.get(id);
+      return appointment && !isExpired(appointment.createdAt) ? appointment : null;
+    },
+
+    async createClinician({ username, passwordHash }) {
+      const key = username.toLowerCase();
+      if (clinicians.has(key)) throw new Error(`Clinician "${username}" already exists`);
+      const clinician = { id: randomUUID(), username, passwordHash, createdAt: Date.now() };
+      clinicians.set(key, clinician);
+      return clinician;
+    },
+
+    async getClinicianByUsername(username) {
+      return clinicians.get(String(username).toLowerCase()) || null;
+    },
+
+    async createAuthSession({ idHash, role, clinicianId, appointmentId, expiresAt }) {
+      authSessions.set(idHash, {
+        idHash,
+        role,
+        clinicianId: clinicianId || null,
+        appointmentId: appointmentId || null,
+        createdAt: Date.now(),
+        expiresAt,
+      });
+    },
+
+    async getAuthSession(idHash) {
+      const session = authSessions.get(idHash);
+      return session && session.expiresAt > Date.now() ? session : null;
+    },
+
+    async deleteAuthSession(idHash) {
+      authSessions.delete(idHash);
+    },
+
+    async markInviteUsed({ nonce, appointmentId, expiresAt }) {
+      if (usedInvites.has(nonce)) return false;
+      usedInvites.set(nonce, { nonce, appointmentId, usedAt: Date.now(), expiresAt });
+      return true;
+    },
+
+    async purgeExpired(now = Date.now()) {
+      return {
+        authSessions: sweep(authSessions, (s) => s.expiresAt <= now),
+        usedInvites: sweep(usedInvites, (i) => i.expiresAt <= now),
+        patientRecords: sweep(patientRecords, (r) => isExpired(r.createdAt, now)),
+        visitSessions: sweep(visitSessions, (v) => isExpired(v.createdAt, now)),
+        appointments: sweep(appointments, (a) => isExpired(a.createdAt, now)),
+      };
+    },
+
+    async close() {},
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Ordered SQLite schema migrations. Each entry runs once, inside a
+ * transaction, and bumps PRAGMA user_version to its version number.
+ * Never edit a shipped migration — append a new one instead.
+ */
+export const migrations = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: `
+      CREATE TABLE patient_records (
+        id TEXT PRIMARY KEY,
+        text TEXT,
+        drugs TEXT NOT NULL DEFAULT '[]',
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_patient_records_created_at ON patient_records (created_at);
+
+      CREATE TABLE visit_sessions (
+        session_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_visit_sessions_created_at ON visit_sessions (created_at);
+    `,
+  },
+  {
+    version: 2,
+    name: 'appointments',
+    up: `
+      CREATE TABLE appointments (
+        id TEXT PRIMARY KEY,
+        room_name TEXT NOT NULL UNIQUE,
+        record_id TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_appointments_created_at ON appointments (created_at);
+    `,
+  },
+  {
+    version: 3,
+    name: 'clinician auth and patient invites',
+    up: `
+      CREATE TABLE clinicians (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE auth_sessions (
+        id_hash TEXT PRIMARY KEY,
+        role TEXT NOT NULL CHECK (role IN ('doctor', 'patient')),
+        clinician_id TEXT,
+        appointment_id TEXT,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_auth_sessions_expires_at ON auth_sessions (expires_at);
+
+      CREATE TABLE used_invites (
+        nonce TEXT PRIMARY KEY,
+        appointment_id TEXT NOT NULL,
+        used_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+
+      ALTER TABLE appointments ADD COLUMN clinician_id TEXT;
+    `,
+  },
+  {
+    version: 4,
+    name: 'patient profiles',
+    up: `
+      ALTER TABLE patient_records ADD COLUMN profile TEXT NOT NULL DEFAULT '{}';
+    `,
+  },
+  {
+    version: 5,
+    name: 'patient record owners',
+    // Records from before this migration have no owner and can no longer be opened
+    up: `
+      ALTER TABLE patient_records ADD COLUMN clinician_id TEXT;
+    `,
+  },
+];
+
+/**
+ * Apply every migration newer than the database's user_version.
+ * @param {import('better-sqlite3').Database} db
+ */
+export function migrate(db) {
+  const current = db.pragma('user_version', { simple: true });
+  const pending = migrations.filter((m) => m.version > current).sort((a, b) => a.version - b.version);
+
+  for (const m of pending) {
+    db.transaction(() => {
+      db.exec(m.up);
+      db.pragma(`user_version = ${m.version}`);
+    })();
+    console.log(`[Storage] Applied migration ${m.version}: ${m.name}`);
+  }
+}
@@ -0,0 +1,200 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { migrate } from './migrations.js';
+import { normalizeProfile } from '../../shared/patientProfile.js';
+
+/**
+ * SQLite-backed store (default). One file, WAL mode, schema managed by migrations.js.
+ * @param {{ file: string, retentionMs: number }} options
+ * @returns {import('./index.js').Storage}
+ */
+export function createSqliteStore({ file, retentionMs }) {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+
+  // Records older than this are treated as gone even before the sweep deletes them.
+  const cutoff = (now = Date.now()) => (retentionMs > 0 ? now - retentionMs : 0);
+
+  const stmts = {
+    insertRecord: db.prepare(
+      'INSERT INTO patient_records (id, text, drugs, profile, clinician_id, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ),
+    getRecord: db.prepare('SELECT * FROM patient_records WHERE id = ? AND created_at >= ?'),
+    updateProfile: db.prepare('UPDATE patient_records SET profile = ? WHERE id = ? AND created_at >= ?'),
+    upsertVisit: db.prepare(`
+      INSERT INTO visit_sessions (session_id, data, created_at, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `),
+    getVisit: db.prepare('SELECT data FROM visit_sessions WHERE session_id = ? AND created_at >= ?'),
+    insertAppointment: db.prepare(
+      'INSERT INTO appointments (id, room_name, record_id, clinician_id, created_at) VALUES (?, ?, ?, ?, ?)'
+    ),
+    getAppointment: db.prepare('SELECT * FROM appointments WHERE id = ? AND created_at >= ?'),
+    insertClinician: db.prepare('INSERT INTO clinicians (id, username, password_hash, created_at) VALUES (?, ?, ?, ?)'),
+    getClinicianByUsername: db.prepare('SELECT * FROM clinicians WHERE username = ?'),
+    insertAuthSession: db.prepare(`
+      INSERT INTO auth_sessions (id_hash, role, clinician_id, appointment_id, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `),
+    getAuthSession: db.prepare('SELECT * FROM auth_sessions WHERE id_hash = ? AND expires_at > ?'),
+    deleteAuthSession: db.prepare('DELETE FROM auth_sessions WHERE id_hash = ?'),
+    insertUsedInvite: db.prepare(
+      'INSERT OR IGNORE INTO used_invites (nonce, appointment_id, used_at, expires_at) VALUES (?, ?, ?, ?)'
+    ),
+    purgeAuthSessions: db.prepare('DELETE FROM auth_sessions WHERE expires_at <= ?'),
+    purgeUsedInvites: db.prepare('DELETE FROM used_invites WHERE expires_at <= ?'),
+    purgeRecords: db.prepare('DELETE FROM patient_records WHERE created_at < ?'),
+    purgeVisits: db.prepare('DELETE FROM visit_sessions WHERE created_at < ?'),
+    purgeAppointments: db.prepare('DELETE FROM appointments WHERE created_at < ?'),
+  };
+
+  const toRecord = (row) =>
+    row
+      ? {
+          id: row.id,
+          text: row.text,
+          drugs: JSON.parse(row.drugs || '[]'),
+          profile: normalizeProfile(JSON.parse(row.profile || '{}')),
+          clinicianId: row.clinician_id,
+          createdAt: row.created_at,
+        }
+      : null;
+
+  return {
+    async createPatientRecord({ text, drugs, profile, clinicianId }) {
+      const record = {
+        id: randomUUID(),
+        text: text ?? null,
+        drugs: drugs || [],
+        profile: normalizeProfile(profile),
+        clinicianId: clinicianId || null,
+        createdAt: Date.now(),
+      };
+      stmts.insertRecord.run(
+        record.id,
+        record.text,
+        JSON.stringify(record.drugs),
+        JSON.stringify(record.profile),
+        record.clinicianId,
+        record.createdAt
+      );
+      return record;
+    },
+
+    async getPatientRecord(id) {
+      return toRecord(stmts.getRecord.get(id, cutoff()));
+    },
+
+    async updatePatientProfile(id, profile) {
+      const { changes } = stmts.updateProfile.run(JSON.stringify(normalizeProfile(profile)), id, cutoff());
+      return changes ? toRecord(stmts.getRecord.get(id, cutoff())) : null;
+    },
+
+    async saveVisitSession(visit) {
+      const now = Date.now();
+      const createdAt = visit.createdAt ?? now;
+      stmts.upsertVisit.run(visit.sessionId, JSON.stringify({ ...visit, createdAt }), createdAt, now);
+    },
+
+    async getVisitSession(sessionId) {
+      const row = stmts.getVisit.get(sessionId, cutoff());
+      return row ? JSON.parse(row.data) : null;
+    },
+
+    async createAppointment({ recordId, clinicianId }) {
+      const id = randomUUID();
+      const appointment = {
+        id,
+        roomName: `appt-${id}`,
+        recordId: recordId || null,
+        clinicianId: clinicianId || null,
+        createdAt: Date.now(),
+      };
+      stmts.insertAppointment.run(
+        appointment.id,
+        appointment.roomName,
+        appointment.recordId,
+        appointment.clinicianId,
+        appointment.createdAt
+      );
+      return appointment;
+    },
+
+    async getAppointment(id) {
+      const row = stmts.getAppointment.get(id, cutoff());
+      return row
+        ? {
+            id: row.id,
+            roomName: row.room_name,
+            recordId: row.record_id,
+            clinicianId: row.clinician_id,
+            createdAt: row.created_at,
+          }
+        : null;
+    },
+
+    async createClinician({ username, passwordHash }) {
+      const clinician = { id: randomUUID(), username, passwordHash, createdAt: Date.now() };
+      stmts.insertClinician.run(clinician.id, clinician.username, clinician.passwordHash, clinician.createdAt);
+      return clinician;
+    },
+
+    async getClinicianByUsername(username) {
+      const row = stmts.getClinicianByUsername.get(username);
+      return row
+        ? { id: row.id, username: row.username, passwordHash: row.password_hash, createdAt: row.created_at }
+        : null;
+    },
+
+    async createAuthSession({ idHash, role, clinicianId, appointmentId, expiresAt }) {
+      stmts.insertAuthSession.run(idHash, role, clinicianId || null, appointmentId || null, Date.now(), expiresAt);
+    },
+
+    async getAuthSession(idHash) {
+      const row = stmts.getAuthSession.get(idHash, Date.now());
+      return row
+        ? {
+            idHash: row.id_hash,
+            role: row.role,
+            clinicianId: row.clinician_id,
+            appointmentId: row.appointment_id,
+            createdAt: row.created_at,
+            expiresAt: row.expires_at,
+          }
+        : null;
+    },
+
+    async deleteAuthSession(idHash) {
+      stmts.deleteAuthSession.run(idHash);
+    },
+
+    async markInviteUsed({ nonce, appointmentId, expiresAt }) {
+      return stmts.insertUsedInvite.run(nonce, appointmentId, Date.now(), expiresAt).changes > 0;
+    },
+
+    async purgeExpired(now = Date.now()) {
+      // Login state carries its own expiry and is swept regardless of the retention setting
+      const removed = {
+        authSessions: stmts.purgeAuthSessions.run(now).changes,
+        usedInvites: stmts.purgeUsedInvites.run(now).changes,
+      };
+      if (retentionMs <= 0) return { ...removed, patientRecords: 0, visitSessions: 0, appointments: 0 };
+      const before = cutoff(now);
+      return {
+        ...removed,
+        patientRecords: stmts.purgeRecords.run(before).changes,
+        visitSessions: stmts.purgeVisits.run(before).changes,
+        appointments: stmts.purgeAppointments.run(before).changes,
+      };
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
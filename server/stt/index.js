@@ -0,0 +1,134 @@
+/**
+ * Server-side speech-to-text for browsers without the Web Speech API. Clients
+ * open a session, POST 16 kHz PCM16 chunks from their microphone track and get
+ * recognised text back with each response.
+ *
+ * The engine is chosen per deployment with STT_ENGINE:
+ *   vosk     offline Vosk model (VOSK_MODEL_PATH, needs the optional `vosk` package)
+ *   whisper  whisper.cpp-compatible HTTP server (WHISPER_URL)
+ *   none     disabled (default when neither is configured)
+ */
+
+import { randomUUID } from 'crypto';
+import { SAMPLE_RATE } from './audio.js';
+import { createVoskEngine } from './voskEngine.js';
+import { createWhisperEngine } from './whisperEngine.js';
+
+export { SAMPLE_RATE } from './audio.js';
+
+const DEFAULT_IDLE_MS = 60 * 1000;
+const MAX_SESSIONS = 50;
+
+/**
+ * @typedef {Object} SttResult
+ * @property {string} text
+ * @property {boolean} final  false for a partial hypothesis that may still change
+ * @property {number} [confidence]  0..1 when the engine reports it
+ */
+
+/**
+ * @typedef {Object} SttStream
+ * @property {(pcm: Buffer) => Promise<SttResult[]>} write
+ * @property {() => Promise<SttResult[]>} end  flush remaining audio and release the stream
+ */
+
+/**
+ * @typedef {Object} SttEngine
+ * @property {string} name
+ * @property {() => SttStream} createStream
+ * @property {() => void} close
+ */
+
+/** Build the configured engine, or null when STT is disabled or misconfigured. */
+async function createEngine(options) {
+  const kind =
+    options.engine ||
+    process.env.STT_ENGINE ||
+    (process.env.VOSK_MODEL_PATH ? 'vosk' : process.env.WHISPER_URL ? 'whisper' : 'none');
+
+  try {
+    if (kind === 'vosk') {
+      return await createVoskEngine({ modelPath: options.modelPath || process.env.VOSK_MODEL_PATH });
+    }
+    if (kind === 'whisper') {
+      return createWhisperEngine({
+        url: options.whisperUrl || process.env.WHISPER_URL,
+        timeoutMs: Number(process.env.WHISPER_TIMEOUT_MS || 30000),
+      });
+    }
+    if (kind !== 'none') console.warn(`[STT] Unknown STT_ENGINE "${kind}"; server-side STT disabled.`);
+  } catch (err) {
+    console.warn(`[STT] ${kind} engine unavailable: ${err.message}`);
+  }
+  return null;
+}
+
+/**
+ * Create the STT service: an engine plus the open streaming sessions. Each session
+ * belongs to the auth session that opened it and is closed after `idleMs` without audio.
+ */
+export async function createSttService(options = {}) {
+  const engine = await createEngine(options);
+  const idleMs = options.idleMs ?? DEFAULT_IDLE_MS;
+  /** @type {Map<string, { owner: string, stream: SttStream, lastSeen: number, queue: Promise<unknown> }>} */
+  const sessions = new Map();
+
+  const closeSession = async (id) => {
+    const session = sessions.get(id);
+    if (!session) return [];
+    sessions.delete(id);
+    await session.queue.catch(() => {});
+    return session.stream.end();
+  };
+
+  const timer = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        closeSession(id).catch((err) => console.warn('[STT] Failed to close idle session:', err.message));
+      }
+    }
+  }, Math.min(idleMs, 30000));
+  timer.unref();
+
+  if (engine) console.log(`[STT] Server-side speech-to-text enabled (${engine.name})`);
+
+  return {
+    get engineName() {
+      return engine?.name ?? null;
+    },
+
+    /** Open a session for `owner`. Returns the session id, or null when unavailable. */
+    open(owner) {
+      if (!engine || sessions.size >= MAX_SESSIONS) return null;
+      const id = randomUUID();
+      sessions.set(id, { owner, stream: engine.createStream(), lastSeen: Date.now(), queue: Promise.resolve() });
+      return id;
+    },
+
+    /** Feed a PCM chunk. Chunks are processed in order even if requests overlap. Null if not found. */
+    async write(id, owner, pcm) {
+      const session = sessions.get(id);
+      if (!session || session.owner !== owner) return null;
+      session.lastSeen = Date.now();
+      const result = session.queue.then(() => session.stream.write(pcm));
+      session.queue = result.catch(() => {});
+      return result;
+    },
+
+    /** Flush and close a session. Null if not found. */
+    async close(id, owner) {
+      const session = sessions.get(id);
+      if (!session || session.owner !== owner) return null;
+      return closeSession(id);
+    },
+
+    async shutdown() {
+      clearInterval(timer);
+      await Promise.all([...sessions.keys()].map((id) => closeSession(id).catch(() => [])));
+      engine?.close();
+    },
+
+    sampleRate: SAMPLE_RATE,
+  };
+}
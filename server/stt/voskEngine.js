@@ -0,0 +1,51 @@
+/**
+ * Offline STT with Vosk (https://alphacephei.com/vosk). Needs the optional
+ * `vosk` package and a downloaded model directory (VOSK_MODEL_PATH).
+ */
+
+import { SAMPLE_RATE } from './audio.js';
+
+export async function createVoskEngine({ modelPath }) {
+  if (!modelPath) throw new Error('VOSK_MODEL_PATH is not set');
+  let vosk;
+  try {
+    vosk = (await import('vosk')).default;
+  } catch {
+    throw new Error('STT_ENGINE=vosk needs the "vosk" package (npm install vosk)');
+  }
+  vosk.setLogLevel(-1);
+  const model = new vosk.Model(modelPath);
+
+  // Average per-word confidence (needs setWords(true))
+  const toResult = ({ text, result }) => {
+    const words = Array.isArray(result) ? result : [];
+    const confidence = words.length ? words.reduce((sum, w) => sum + (w.conf ?? 0), 0) / words.length : undefined;
+    return { text, final: true, confidence };
+  };
+
+  return {
+    name: 'vosk',
+    createStream() {
+      const recognizer = new vosk.Recognizer({ model, sampleRate: SAMPLE_RATE });
+      recognizer.setWords(true);
+      return {
+        async write(pcm) {
+          if (recognizer.acceptWaveform(pcm)) {
+            const result = recognizer.result();
+            return result.text ? [toResult(result)] : [];
+          }
+          const { partial } = recognizer.partialResult();
+          return partial ? [{ text: partial, final: false }] : [];
+        },
+        async end() {
+          const result = recognizer.finalResult();
+          recognizer.free();
+          return result.text ? [toResult(result)] : [];
+        },
+      };
+    },
+    close() {
+      model.free();
+    },
+  };
+}
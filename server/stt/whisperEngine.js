@@ -0,0 +1,74 @@
+/**
+ * STT through a whisper.cpp-compatible HTTP server (whisper.cpp `server` example,
+ * or anything exposing the same POST /inference API). Audio is buffered and sent
+ * as one WAV per utterance: a chunk is flushed after a pause in speech or once
+ * it reaches the maximum length.
+ */
+
+import { SAMPLE_RATE, rmsLevel, pcmToWav } from './audio.js';
+
+const BYTES_PER_SECOND = SAMPLE_RATE * 2;
+const SILENCE_LEVEL = 0.01;
+
+export function createWhisperEngine({ url, timeoutMs = 30000, maxSeconds = 15, pauseMs = 800 }) {
+  if (!url) throw new Error('WHISPER_URL is not set');
+  const endpoint = `${url.replace(/\/$/, '')}/inference`;
+
+  const transcribe = async (pcm) => {
+    const form = new FormData();
+    form.append('file', new Blob([pcmToWav(pcm)], { type: 'audio/wav' }), 'audio.wav');
+    form.append('response_format', 'json');
+    form.append('temperature', '0');
+    const res = await fetch(endpoint, { method: 'POST', body: form, signal: AbortSignal.timeout(timeoutMs) });
+    if (!res.ok) throw new Error(`whisper server returned ${res.status}`);
+    const data = await res.json();
+    return String(data?.text || '').trim();
+  };
+
+  return {
+    name: 'whisper',
+    createStream() {
+      let chunks = [];
+      let buffered = 0;
+      let heardSpeech = false;
+      let silentBytes = 0;
+
+      const flush = async () => {
+        const pcm = Buffer.concat(chunks);
+        const hadSpeech = heardSpeech;
+        chunks = [];
+        buffered = 0;
+        heardSpeech = false;
+        silentBytes = 0;
+        if (!hadSpeech || !pcm.length) return [];
+        const text = await transcribe(pcm);
+        // whisper marks non-speech as e.g. "[BLANK_AUDIO]"
+        return text && !/^\[.*\]$/.test(text) ? [{ text, final: true }] : [];
+      };
+
+      return {
+        async write(pcm) {
+          chunks.push(pcm);
+          buffered += pcm.length;
+          if (rmsLevel(pcm) >= SILENCE_LEVEL) {
+            heardSpeech = true;
+            silentBytes = 0;
+          } else {
+            silentBytes += pcm.length;
+          }
+          const paused = heardSpeech && silentBytes >= (pauseMs / 1000) * BYTES_PER_SECOND;
+          if (paused || buffered >= maxSeconds * BYTES_PER_SECOND) return flush();
+          // Drop leading silence so it is never uploaded
+          if (!heardSpeech && buffered > BYTES_PER_SECOND) {
+            chunks = [];
+            buffered = 0;
+            silentBytes = 0;
+          }
+          return [];
+        },
+        end: flush,
+      };
+    },
+    close() {},
+  };
+}
@@ -1,6 +1,7 @@
 /**
  * Generates follow-up messages for clinicians and patients
- * after a post-visit safety check.
+ * after a post-visit safety check. Rule-specific wording comes from the
+ * risks raised by the safety rules (server/safety/rules).
  */
 
 /**
@@ -10,36 +11,21 @@
 function generateClinicianNote(safetyCheck) {
   const notes = [];
 
-  // Check for ACE inhibitor + NSAID combination
-  const aceInhibitors = safetyCheck.prescriptions.filter(p => 
-    p.drug.toLowerCase().includes('lisinopril') ||
-    p.drug.toLowerCase().includes('ace') ||
-    p.drug.toLowerCase().includes('pril')
-  );
-  
-  const nsaids = safetyCheck.prescriptions.filter(p => 
-    p.drug.toLowerCase().includes('naproxen') ||
-    p.drug.toLowerCase().includes('ibuprofen') ||
-    p.drug.toLowerCase().includes('nsaid')
-  );
-
-  if (aceInhibitors.length > 0 && nsaids.length > 0) {
-    const aceDrug = aceInhibitors[0].drug;
-    const nsaidDrug = nsaids[0].drug;
-    notes.push(
-      `For patients on ${aceDrug}, consider renal monitoring or follow-up if ${nsaidDrug} use extends beyond the prescribed duration.`
-    );
+  // Notes from the safety rules that fired, most severe first
+  for (const risk of safetyCheck.risks || []) {
+    if (risk.clinicianNote) notes.push(risk.clinicianNote);
   }
 
   // Check for other common interactions
   if (safetyCheck.interactions && safetyCheck.interactions.length > 0) {
     notes.push(
-      `Review potential interactions: ${safetyCheck.interactions.slice(0, 3).join(', ')}.`
+      `Review potential interactions: ${safetyCheck.interactions.slice(0, 3).map((i) => `${i.drugs.join(' + ')} (${i.severity})`).join(', ')}.`
     );
   }
 
   // Age-based considerations
-  if (safetyCheck.patientAge && safetyCheck.patientAge > 65) {
+  const age = safetyCheck.patientProfile?.age;
+  if (age && age > 65) {
     notes.push(
       `Patient is over 65 - consider reduced dosing or closer monitoring for new medications.`
     );
@@ -62,31 +48,9 @@ function generateClinicianNote(safetyCheck) {
 function generatePatientFollowUp(safetyCheck) {
   const messages = [];
 
-  // NSAID-specific follow-up
-  const nsaids = safetyCheck.prescriptions.filter(p => 
-    p.drug.toLowerCase().includes('naproxen') ||
-    p.drug.toLowerCase().includes('ibuprofen') ||
-    p.drug.toLowerCase().includes('nsaid')
-  );
-
-  if (nsaids.length > 0) {
-    const nsaidDrug = nsaids[0].drug;
-    messages.push(
-      `If pain lasts beyond the prescribed duration or you notice swelling, reduced urination, or unusual symptoms, contact your provider immediately.`
-    );
-  }
-
-  // ACE inhibitor + NSAID combination warning
-  const aceInhibitors = safetyCheck.prescriptions.filter(p => 
-    p.drug.toLowerCase().includes('lisinopril') ||
-    p.drug.toLowerCase().includes('ace') ||
-    p.drug.toLowerCase().includes('pril')
-  );
-
-  if (aceInhibitors.length > 0 && nsaids.length > 0) {
-    messages.push(
-      `Since you're taking both blood pressure medication and pain medication, watch for signs of kidney issues: reduced urination, swelling in your legs or feet, or unusual fatigue. Contact your provider if these occur.`
-    );
+  // Patient wording from the safety rules that fired
+  for (const risk of safetyCheck.risks || []) {
+    if (risk.patientMessage) messages.push(risk.patientMessage);
   }
 
   // General follow-up
@@ -0,0 +1,40 @@
+/**
+ * Fixed-window rate limiting per auth session, for routes that spend
+ * third-party API quota (LLM, vision) on the caller's behalf.
+ */
+
+/**
+ * Express middleware allowing `max` requests per `windowMs` for each signed-in
+ * session (falling back to the client IP). Over the limit it answers 429 with Retry-After.
+ * @param {{ name: string, max: number, windowMs?: number }} options
+ */
+export function rateLimitPerSession({ name, max, windowMs = 60 * 1000 }) {
+  /** @type {Map<string, { start: number, count: number }>} */
+  const windows = new Map();
+
+  const timer = setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    for (const [key, w] of windows) {
+      if (w.start < cutoff) windows.delete(key);
+    }
+  }, windowMs);
+  timer.unref();
+
+  return (req, res, next) => {
+    const key = req.auth?.idHash || req.ip;
+    const now = Date.now();
+    let w = windows.get(key);
+    if (!w || w.start + windowMs <= now) {
+      w = { start: now, count: 0 };
+      windows.set(key, w);
+    }
+    w.count++;
+    if (w.count > max) {
+      const retryAfter = Math.ceil((w.start + windowMs - now) / 1000);
+      res.set('Retry-After', String(retryAfter));
+      if (w.count === max + 1) console.warn(`[RateLimit] ${name}: limit of ${max} reached for a ${req.auth?.role || 'anonymous'} session`);
+      return res.status(429).json({ error: 'Too many requests, try again shortly' });
+    }
+    next();
+  };
+}
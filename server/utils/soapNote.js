@@ -0,0 +1,143 @@
+/**
+ * Builds SOAP notes for a finished visit: an LLM draft when an LLM provider is
+ * configured, otherwise a deterministic template filled from the transcript
+ * and the post-visit safety check.
+ */
+
+import { normalizeSoapNote, SOAP_INTENTS } from '../../shared/soapNote.js';
+
+const PLAN_VERBS = {
+  prescribe: 'Start',
+  discontinue: 'Stop',
+  continue: 'Continue',
+  dose_change: 'Adjust dose of',
+};
+
+const MAX_STATEMENTS = 8;
+const SPEAKER_LINE = /^(?:\[\d+:\d{2}\]\s*)?(Doctor|Patient):\s*(.+)$/i;
+
+const capitalize = (s) => s.charAt(0).toUpperCase() + s.slice(1);
+
+/**
+ * Medication changes from the visit as stored by the post-visit check: confirmed
+ * prescriptions plus drugs the doctor discontinued.
+ */
+export function medicationChangesFromVisit(visit) {
+  const changes = (visit?.prescriptions || [])
+    .filter((p) => p?.drug)
+    .map((p) => ({
+      drug: p.drug,
+      intent: SOAP_INTENTS.includes(p.intent) && p.intent !== 'discontinue' ? p.intent : 'prescribe',
+      dosage: p.dosage,
+      frequency: p.sig?.frequency?.text,
+      duration: p.duration,
+    }));
+  for (const drug of visit?.safetyCheck?.discontinued || []) {
+    changes.push({ drug: capitalize(String(drug)), intent: 'discontinue' });
+  }
+  return changes;
+}
+
+/** "Start Ibuprofen 400 mg, twice a day, for 7 days." */
+export function describeMedicationChange(change) {
+  const details = [change.dosage, change.frequency, change.duration && `for ${change.duration}`].filter(Boolean);
+  return `${PLAN_VERBS[change.intent] || 'Start'} ${change.drug}${details.length ? ` ${details.join(', ')}` : ''}.`;
+}
+
+/** Transcript lines grouped by speaker; lines without a speaker label count as the doctor's. */
+function statementsBySpeaker(transcript) {
+  const statements = { doctor: [], patient: [] };
+  for (const line of String(transcript || '').split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const m = trimmed.match(SPEAKER_LINE);
+    if (m) statements[m[1].toLowerCase()].push(m[2].trim());
+    else statements.doctor.push(trimmed);
+  }
+  return statements;
+}
+
+/** Deterministic note used when no LLM is configured or the LLM call fails. */
+export function buildTemplateSoapNote({ transcript, visit }) {
+  const { patient } = statementsBySpeaker(transcript);
+  const medicationChanges = medicationChangesFromVisit(visit);
+  const safetyCheck = visit?.safetyCheck || {};
+
+  const subjective = patient.length
+    ? `Patient reports: ${patient.slice(0, MAX_STATEMENTS).join(' ')}${patient.length > MAX_STATEMENTS ? ' …' : ''}`
+    : 'No patient statements were transcribed.';
+
+  const history = visit?.patientHistory || [];
+  const objective = [
+    'Telehealth visit; no in-person examination performed.',
+    history.length ? `Medications on record: ${history.join(', ')}.` : 'No medication history on record.',
+  ].join(' ');
+
+  const findings = [
+    ...(safetyCheck.risks || []).map((r) => r.description),
+    ...(safetyCheck.interactions || []).map((i) => `${capitalize(i.severity)} interaction: ${i.drugs.join(' + ')}. ${i.mechanism}`),
+  ];
+  const assessment = findings.length
+    ? findings.join(' ')
+    : 'No medication safety concerns flagged by the post-visit check.';
+
+  const plan = [
+    ...medicationChanges.map(describeMedicationChange),
+    visit?.clinicianNote,
+  ]
+    .filter(Boolean)
+    .join('\n') || 'No medication changes. Follow up as needed.';
+
+  return normalizeSoapNote({ subjective, objective, assessment, plan, medicationChanges, source: 'template' });
+}
+
+function soapPrompt(transcript, medicationChanges) {
+  const meds = medicationChanges.length ? medicationChanges.map(describeMedicationChange).join('\n') : 'None';
+  return `You are writing a SOAP note from a medical consultation transcript between a doctor and patient.
+
+IMPORTANT CONTEXT:
+- This transcript was created using voice-to-text speech recognition
+- Words may be misheard, misspelled, or transcribed incorrectly
+- Do not invent findings, vitals or diagnoses that are not supported by the transcript
+
+TRANSCRIPT:
+${transcript}
+
+CONFIRMED MEDICATION CHANGES (authoritative, include them in the plan as written):
+${meds}
+
+Respond with ONLY a JSON object with exactly these string fields:
+{"subjective": "...", "objective": "...", "assessment": "...", "plan": "..."}`;
+}
+
+/** Pull the JSON object out of a model reply that may be wrapped in a code fence. */
+function parseJsonReply(text) {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('No JSON object in model reply');
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+/**
+ * Generate a SOAP note for `visit`. Medication changes always come from the
+ * visit's prescriptions, never from the model.
+ * @param {{ transcript: string, visit: object, llm: import('../llm/index.js').LlmProvider|null }} options
+ * @returns {Promise<import('../../shared/soapNote.js').SoapNote>}
+ */
+export async function generateSoapNote({ transcript, visit, llm }) {
+  const template = buildTemplateSoapNote({ transcript, visit });
+  if (!llm || !String(transcript || '').trim()) return template;
+
+  try {
+    const reply = await llm.complete({ prompt: soapPrompt(transcript, template.medicationChanges), json: true });
+    const sections = parseJsonReply(reply);
+    // Sections the model left out keep the template text
+    return normalizeSoapNote(
+      { ...sections, medicationChanges: template.medicationChanges, source: 'llm' },
+      template
+    );
+  } catch (err) {
+    console.error('[SOAP] LLM note generation failed, using template:', err);
+    return template;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Server-side proxy for the Overshoot realtime vision API, so the browser never
+ * holds OVERSHOOT_API_KEY. The client SDK is pointed at /api/vision with a
+ * placeholder key; stream creation and keepalives are forwarded with the real
+ * key, and the result WebSocket is relayed with the key swapped into its
+ * authentication message.
+ */
+
+import { WebSocket, WebSocketServer } from 'ws';
+
+const DEFAULT_API_URL = 'https://cluster1.overshoot.ai/api/v0.2';
+const WS_PATH = /^\/api\/vision\/ws\/streams\/([\w-]+)$/;
+const STREAM_TTL_MS = 2 * 60 * 60 * 1000;
+
+export function createVisionProxy(options = {}) {
+  // VITE_-prefixed keys are exposed to the browser bundle, so they are no longer read here
+  if (process.env.VITE_OVERSHOOT_API_KEY && !process.env.OVERSHOOT_API_KEY) {
+    console.warn('[Vision] VITE_OVERSHOOT_API_KEY is ignored; rename it to OVERSHOOT_API_KEY and remove it from the client env');
+  }
+  const apiKey = options.apiKey || process.env.OVERSHOOT_API_KEY;
+  const apiUrl = (options.apiUrl || process.env.OVERSHOOT_API_URL || DEFAULT_API_URL).replace(/\/$/, '');
+  const timeoutMs = options.timeoutMs ?? 15000;
+  /** Streams this proxy created: streamId -> { owner, createdAt }. Only the owner may use them. */
+  const streams = new Map();
+
+  const forward = async (path, body) => {
+    const res = await fetch(`${apiUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const data = await res.json().catch(() => ({}));
+    return { status: res.status, data };
+  };
+
+  const ownsStream = (streamId, owner) => {
+    const stream = streams.get(streamId);
+    if (!stream) return false;
+    if (stream.createdAt + STREAM_TTL_MS < Date.now()) {
+      streams.delete(streamId);
+      return false;
+    }
+    return stream.owner === owner;
+  };
+
+  return {
+    available: !!apiKey,
+
+    /** Create a stream for `owner` (auth session hash). Body is the SDK's createStream request. */
+    async createStream(owner, body) {
+      const result = await forward('/streams', body);
+      if (result.status < 300 && result.data?.stream_id) {
+        streams.set(result.data.stream_id, { owner, createdAt: Date.now() });
+      }
+      return result;
+    },
+
+    /** Renew a stream's lease. Null when the stream is not `owner`'s. */
+    async keepalive(owner, streamId) {
+      if (!ownsStream(streamId, owner)) return null;
+      return forward(`/streams/${encodeURIComponent(streamId)}/keepalive`);
+    },
+
+    /**
+     * Relay result WebSockets on `server`. `authenticate(req)` resolves to the
+     * caller's auth session (or null) from the upgrade request's cookies.
+     */
+    attach(server, authenticate) {
+      const wss = new WebSocketServer({ noServer: true });
+      const wsBase = apiUrl.replace(/^http/, 'ws');
+
+      server.on('upgrade', async (req, socket, head) => {
+        const match = new URL(req.url, 'http://localhost').pathname.match(WS_PATH);
+        if (!match) return; // Not ours (e.g. Vite HMR in dev)
+        const streamId = match[1];
+        const session = await authenticate(req).catch(() => null);
+        if (!apiKey || !session || !ownsStream(streamId, session.idHash)) {
+          socket.write('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (client) => {
+          const upstream = new WebSocket(`${wsBase}/ws/streams/${encodeURIComponent(streamId)}`);
+          let authenticated = false;
+          const pending = [];
+
+          const send = (data) => {
+            // The SDK's first message carries its (placeholder) key; replace it with the real one
+            if (!authenticated) {
+              authenticated = true;
+              upstream.send(JSON.stringify({ api_key: apiKey }));
+              return;
+            }
+            upstream.send(data);
+          };
+
+          client.on('message', (data) => {
+            if (upstream.readyState === WebSocket.OPEN) send(data);
+            else pending.push(data);
+          });
+          upstream.on('open', () => pending.splice(0).forEach(send));
+          upstream.on('message', (data, isBinary) => {
+            if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+          });
+
+          // Keep close codes in the range browsers accept (1005/1006 are reserved)
+          const closeCode = (code) => (code >= 3000 || (code >= 1000 && code <= 1003) || code === 1008 || code === 1011 ? code : 1000);
+          upstream.on('close', (code) => client.close(closeCode(code)));
+          client.on('close', () => upstream.close());
+          upstream.on('error', (err) => {
+            console.warn('[Vision] Upstream WebSocket error:', err.message);
+            client.close(1011);
+          });
+          client.on('error', () => upstream.terminate());
+        });
+      });
+    },
+  };
+}
@@ -0,0 +1,12 @@
+import type { DrugLexicon } from './drugLexicon';
+
+export interface DrugClassTable {
+  byDrug: Map<string, Set<string>>; // Canonical generic -> class IDs
+  members: Map<string, Set<string>>; // Class ID -> canonical generics
+  ingredients: Map<string, string[]>; // Combination product -> ingredient generics
+}
+
+export function parseDrugClasses(text: string, ingredientText?: string): DrugClassTable;
+export function canonicalDrug(lexicon: DrugLexicon, name: string): string;
+export function classesOf(table: DrugClassTable, lexicon: DrugLexicon, name: string): string[];
+export function ingredientsOf(table: DrugClassTable, lexicon: DrugLexicon, name: string): string[];
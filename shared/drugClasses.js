@@ -0,0 +1,71 @@
+/**
+ * Therapeutic drug classes: parses drug-classes.txt (class|generic per line)
+ * and answers which classes a drug belongs to. Names are resolved to their
+ * canonical generic through the drug lexicon, so "Advil" is an NSAID.
+ * Combination products from drug-ingredients.txt (product|ingredient per line)
+ * belong to the classes of their ingredients, so "Percocet" is an opioid.
+ *
+ * Plain ESM with no dependencies beyond drugLexicon.js, so both the browser
+ * bundle and the Node server can import it.
+ */
+
+import { lookupDrug, normalizeName } from './drugLexicon.js';
+
+/** `a|b` lines of a data file; comments and blank lines skipped. */
+function parsePairs(text) {
+  const pairs = [];
+  for (const raw of String(text || '').split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [first, second] = line.split('|').map((s) => s.trim());
+    if (first && second) pairs.push([first, second]);
+  }
+  return pairs;
+}
+
+/**
+ * Parse class file contents, and optionally the combination product file.
+ * @param {string} text
+ * @param {string} [ingredientText]
+ * @returns {import('./drugClasses').DrugClassTable}
+ */
+export function parseDrugClasses(text, ingredientText = '') {
+  const byDrug = new Map();
+  const members = new Map();
+  const ingredients = new Map();
+
+  const add = (cls, drug) => {
+    if (!byDrug.has(drug)) byDrug.set(drug, new Set());
+    byDrug.get(drug).add(cls);
+    if (!members.has(cls)) members.set(cls, new Set());
+    members.get(cls).add(drug);
+  };
+
+  for (const [cls, generic] of parsePairs(text)) add(cls, normalizeName(generic));
+  for (const [combination, ingredient] of parsePairs(ingredientText)) {
+    const product = normalizeName(combination);
+    if (!ingredients.has(product)) ingredients.set(product, []);
+    ingredients.get(product).push(normalizeName(ingredient));
+  }
+  for (const [product, parts] of ingredients) {
+    for (const part of parts) for (const cls of byDrug.get(part) ?? []) add(cls, product);
+  }
+
+  return { byDrug, members, ingredients };
+}
+
+/** Canonical generic for a drug name: the lexicon's generic, else the normalized name. */
+export function canonicalDrug(lexicon, name) {
+  return lookupDrug(lexicon, name) ?? normalizeName(name);
+}
+
+/** Classes of a drug (any name the lexicon knows), empty when unclassified. */
+export function classesOf(table, lexicon, name) {
+  return [...(table.byDrug.get(canonicalDrug(lexicon, name)) ?? [])];
+}
+
+/** Active ingredients of a drug: the parts of a combination product, else the drug itself. */
+export function ingredientsOf(table, lexicon, name) {
+  const generic = canonicalDrug(lexicon, name);
+  return table.ingredients.get(generic) ?? [generic];
+}
@@ -0,0 +1,25 @@
+export type TermType = 'IN' | 'BN' | 'SY' | string;
+
+export interface LexiconEntry {
+  generic: string; // Canonical generic, normalized
+  tty: TermType;
+  name: string; // Name as written in the lexicon file
+}
+
+export interface DrugLexicon {
+  names: Map<string, LexiconEntry>; // Keyed by normalized name
+  generics: string[];
+  maxWords: number;
+}
+
+export interface DrugMatch {
+  generic: string;
+  matched: string; // Normalized text that matched (e.g. "advil")
+  tty: TermType;
+  index: number; // Word index in the normalized text
+}
+
+export function normalizeName(name: string): string;
+export function parseLexicon(text: string): DrugLexicon;
+export function lookupDrug(lexicon: DrugLexicon, name: string): string | null;
+export function findDrugs(lexicon: DrugLexicon, text: string): DrugMatch[];
@@ -0,0 +1,74 @@
+/**
+ * Drug name lexicon: parses the RxNorm-style name file (see drug-lexicon.txt)
+ * and finds drug names in free text, mapping brand names, misspellings and
+ * phonetic variants to their canonical generic.
+ *
+ * Plain ESM with no dependencies so both the browser bundle and the Node
+ * server can import it.
+ */
+
+/** Lower-case, strip punctuation and collapse whitespace so "Z-Pak" and "z pak" compare equal. */
+export function normalizeName(name) {
+  return String(name || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse lexicon file contents.
+ * @param {string} text
+ * @returns {import('./drugLexicon').DrugLexicon}
+ */
+export function parseLexicon(text) {
+  const names = new Map();
+  const generics = new Set();
+  let maxWords = 1;
+
+  for (const raw of String(text || '').split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [generic, tty, name] = line.split('|').map((s) => s.trim());
+    if (!generic || !tty || !name) continue;
+
+    const canonical = normalizeName(generic);
+    const key = normalizeName(name);
+    if (!canonical || !key) continue;
+    generics.add(canonical);
+    // First definition wins, so an ingredient is never remapped by a later synonym
+    if (!names.has(key)) names.set(key, { generic: canonical, tty, name });
+    maxWords = Math.max(maxWords, key.split(' ').length);
+  }
+
+  return { names, generics: [...generics], maxWords };
+}
+
+/** Canonical generic for a single name, or null when the lexicon does not know it. */
+export function lookupDrug(lexicon, name) {
+  return lexicon.names.get(normalizeName(name))?.generic ?? null;
+}
+
+/**
+ * Find every lexicon name in `text`, longest match first ("insulin glargine"
+ * before "insulin"). Each generic is reported once, at its first occurrence.
+ * @returns {import('./drugLexicon').DrugMatch[]}
+ */
+export function findDrugs(lexicon, text) {
+  const words = normalizeName(text).split(' ').filter(Boolean);
+  const found = new Map();
+
+  for (let i = 0; i < words.length; i++) {
+    for (let n = Math.min(lexicon.maxWords, words.length - i); n >= 1; n--) {
+      const phrase = words.slice(i, i + n).join(' ');
+      const entry = lexicon.names.get(phrase);
+      if (!entry) continue;
+      if (!found.has(entry.generic)) {
+        found.set(entry.generic, { generic: entry.generic, matched: phrase, tty: entry.tty, index: i });
+      }
+      i += n - 1;
+      break;
+    }
+  }
+
+  return [...found.values()];
+}
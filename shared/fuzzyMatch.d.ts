@@ -0,0 +1,13 @@
+import type { DrugLexicon, DrugMatch } from './drugLexicon';
+
+export interface DrugCandidate extends DrugMatch {
+  score: number; // 0..1; exact lexicon hits are 1
+  exact: boolean;
+}
+
+export const AUTO_ACCEPT_SCORE: number;
+export const SUGGEST_SCORE: number;
+
+export function phoneticKey(word: string): string;
+export function editDistance(a: string, b: string): number;
+export function matchDrugs(lexicon: DrugLexicon, text: string, options?: { minScore?: number }): DrugCandidate[];
@@ -0,0 +1,148 @@
+/**
+ * Fuzzy drug matching for speech transcripts. Speech-to-text splits and mangles
+ * drug names ("lisinopril" → "lice in a pril", "Zoloft" → "so loft"), so every
+ * window of one to four words is compared against the lexicon by sound (a
+ * simplified Metaphone key) and by spelling (edit distance), producing a score in 0..1.
+ */
+
+import { findDrugs } from './drugLexicon.js';
+
+/** Candidates at or above this score are treated as detected without asking. */
+export const AUTO_ACCEPT_SCORE = 0.85;
+/** Candidates between this and AUTO_ACCEPT_SCORE are shown to the doctor to confirm. */
+export const SUGGEST_SCORE = 0.7;
+
+const MAX_WINDOW_WORDS = 4;
+const MIN_KEY_LENGTH = 3;
+
+/**
+ * Simplified Metaphone: maps letters that sound alike to one code and drops
+ * non-leading vowels, so "liceinapril" and "lisinopril" both become "LSNPRL".
+ */
+export function phoneticKey(word) {
+  let w = String(word || '').toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return '';
+  w = w
+    .replace(/^kn|^gn|^pn/, 'n')
+    .replace(/^wr/, 'r')
+    .replace(/^x/, 's')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/sch/g, 'sk')
+    .replace(/sh|ti(?=[ao])/g, 'x')
+    .replace(/th/g, '0')
+    .replace(/dg(?=[eiy])/g, 'j')
+    .replace(/gh/g, '')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/v/g, 'f')
+    .replace(/y/g, 'i');
+
+  const first = w[0];
+  const rest = w.slice(1).replace(/[aeiouhw]/g, '');
+  const key = (/[aeiou]/.test(first) ? 'a' : first) + rest;
+  return key.replace(/(.)\1+/g, '$1').toUpperCase();
+}
+
+/** Levenshtein distance with the optimal-string-alignment transposition rule. */
+export function editDistance(a, b) {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 1; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+const similarity = (a, b) => (a || b ? 1 - editDistance(a, b) / Math.max(a.length, b.length) : 0);
+
+/** Lexicon names pre-split into compact spelling and phonetic key (cached per lexicon). */
+const indexCache = new WeakMap();
+function indexFor(lexicon) {
+  let index = indexCache.get(lexicon);
+  if (!index) {
+    index = [];
+    for (const [name, entry] of lexicon.names) {
+      const compact = name.replace(/ /g, '');
+      const key = phoneticKey(compact);
+      if (compact.length < 4 || key.length < MIN_KEY_LENGTH) continue;
+      index.push({ ...entry, compact, key });
+    }
+    indexCache.set(lexicon, index);
+  }
+  return index;
+}
+
+/**
+ * Find drugs in a transcript, exact and fuzzy. Exact lexicon hits score 1; fuzzy
+ * candidates are scored by 0.6 × phonetic similarity + 0.4 × spelling similarity
+ * and only returned when at least `minScore` (default SUGGEST_SCORE). Overlapping
+ * windows keep only the best candidate, and each generic is reported once.
+ * @returns {import('./fuzzyMatch').DrugCandidate[]}
+ */
+export function matchDrugs(lexicon, text, { minScore = SUGGEST_SCORE } = {}) {
+  const candidates = findDrugs(lexicon, text).map((m) => ({
+    ...m,
+    words: m.matched.split(' ').length,
+    score: 1,
+    exact: true,
+  }));
+
+  const words = String(text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const index = indexFor(lexicon);
+
+  for (let i = 0; i < words.length; i++) {
+    for (let n = 1; n <= MAX_WINDOW_WORDS && i + n <= words.length; n++) {
+      const compact = words.slice(i, i + n).join('');
+      if (compact.length < 4 || /\d/.test(compact)) continue;
+      const key = phoneticKey(compact);
+      if (key.length < MIN_KEY_LENGTH) continue;
+
+      for (const entry of index) {
+        // Cheap filters before computing edit distances
+        if (entry.key[0] !== key[0]) continue;
+        if (Math.abs(entry.compact.length - compact.length) > 3) continue;
+
+        const score = 0.6 * similarity(key, entry.key) + 0.4 * similarity(compact, entry.compact);
+        if (score < minScore) continue;
+        candidates.push({
+          generic: entry.generic,
+          matched: words.slice(i, i + n).join(' '),
+          tty: entry.tty,
+          index: i,
+          words: n,
+          score: Math.round(score * 100) / 100,
+          exact: false,
+        });
+      }
+    }
+  }
+
+  // Greedy: best score first (exact hits win ties), skipping overlaps and repeated generics
+  candidates.sort((a, b) => b.score - a.score || Number(b.exact) - Number(a.exact) || b.words - a.words);
+  const taken = new Set();
+  const seen = new Set();
+  const results = [];
+  for (const c of candidates) {
+    if (seen.has(c.generic)) continue;
+    const span = Array.from({ length: c.words }, (_, k) => c.index + k);
+    if (span.some((w) => taken.has(w))) continue;
+    span.forEach((w) => taken.add(w));
+    seen.add(c.generic);
+    const { words: _words, ...candidate } = c;
+    results.push(candidate);
+  }
+
+  return results.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,26 @@
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+export interface Interaction {
+  drugs: [string, string]; // [checked drug, drug it interacts with]
+  severity: InteractionSeverity;
+  mechanism: string;
+  management: string; // Clinical management advice
+  source: string; // Citation, including knowledge-base version and entry ID
+}
+
+export interface InteractionCheckResult {
+  hasConflict: boolean;
+  severity: InteractionSeverity | null; // Most severe interaction found
+  interactions: Interaction[]; // Most severe first
+  details: string; // One-line human summary
+  source: string; // 'knowledge-base' | 'browserbase'
+  version?: string; // Knowledge base version
+}
+
+export const INTERACTION_SEVERITIES: InteractionSeverity[];
+export const INTERACTION_SEVERITY_LABELS: Record<InteractionSeverity, string>;
+
+export function severityRank(severity: string): number;
+export function compareInteractions(a: Interaction, b: Interaction): number;
+export function highestSeverity(interactions: Interaction[]): InteractionSeverity | null;
+export function isSevere(severity: string | null | undefined): boolean;
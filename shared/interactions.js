@@ -0,0 +1,41 @@
+/**
+ * Typed drug–drug interaction results, shared by the interaction engine, the
+ * post-visit check and the in-call UI so every consumer grades and orders
+ * interactions the same way.
+ */
+
+/** Most to least severe. */
+export const INTERACTION_SEVERITIES = ['contraindicated', 'major', 'moderate', 'minor'];
+
+/** Display labels, e.g. for severity badges. */
+export const INTERACTION_SEVERITY_LABELS = {
+  contraindicated: 'Contraindicated',
+  major: 'Major',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+/** 0 for contraindicated … 3 for minor; unknown values sort last. */
+export function severityRank(severity) {
+  const rank = INTERACTION_SEVERITIES.indexOf(severity);
+  return rank === -1 ? INTERACTION_SEVERITIES.length : rank;
+}
+
+/** Most severe first, then by drug pair so the order is stable. */
+export function compareInteractions(a, b) {
+  return severityRank(a.severity) - severityRank(b.severity) || a.drugs.join('+').localeCompare(b.drugs.join('+'));
+}
+
+/** The most severe grade in `interactions`, or null when there are none. */
+export function highestSeverity(interactions) {
+  let best = null;
+  for (const { severity } of interactions || []) {
+    if (best === null || severityRank(severity) < severityRank(best)) best = severity;
+  }
+  return best;
+}
+
+/** Contraindicated and major interactions should stop a prescription until reviewed. */
+export function isSevere(severity) {
+  return severity === 'contraindicated' || severity === 'major';
+}
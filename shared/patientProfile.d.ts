@@ -0,0 +1,29 @@
+export type ProfileSex = 'female' | 'male';
+export type HepaticImpairment = 'mild' | 'moderate' | 'severe';
+
+export interface PatientProfile {
+  age: number | null; // Years
+  sex: ProfileSex | null;
+  weightKg: number | null;
+  allergies: string[]; // As written ("penicillin", "sulfa drugs")
+  conditions: string[]; // As written; resolved through conditions.txt
+  egfr: number | null; // mL/min/1.73 m²
+  hepaticImpairment: HepaticImpairment | null;
+  pregnant: boolean | null; // null = unknown
+  lactating: boolean | null;
+}
+
+export interface ConditionTable {
+  names: Map<string, string>; // Normalized name -> condition ID
+  displayNames: Map<string, string>; // Condition ID -> first name listed
+  maxWords: number;
+}
+
+export const PROFILE_SEXES: ProfileSex[];
+export const HEPATIC_IMPAIRMENT: HepaticImpairment[];
+
+export function emptyProfile(): PatientProfile;
+export function normalizeProfile(input: unknown): PatientProfile;
+export function parseConditions(text: string): ConditionTable;
+export function conditionId(table: ConditionTable, name: string): string | null;
+export function findConditions(table: ConditionTable, text: string): string[];
@@ -0,0 +1,126 @@
+/**
+ * Patient profile: demographics, allergies, conditions, renal and hepatic
+ * function and pregnancy/lactation status. Extracted from the uploaded record
+ * and corrected by the doctor; the safety rules evaluate prescriptions
+ * against it. Also parses conditions.txt (condition|name per line).
+ *
+ * Plain ESM with no dependencies beyond drugLexicon.js, so both the browser
+ * bundle and the Node server can import it.
+ */
+
+import { normalizeName } from './drugLexicon.js';
+
+export const PROFILE_SEXES = ['female', 'male'];
+export const HEPATIC_IMPAIRMENT = ['mild', 'moderate', 'severe'];
+
+const MAX_LIST_ITEMS = 50;
+const MAX_ITEM_LENGTH = 100;
+
+/** A profile with nothing known. */
+export function emptyProfile() {
+  return {
+    age: null,
+    sex: null,
+    weightKg: null,
+    allergies: [],
+    conditions: [],
+    egfr: null,
+    hepaticImpairment: null,
+    pregnant: null,
+    lactating: null,
+  };
+}
+
+/** Number within [min, max] rounded to `digits` decimals, else null. */
+function toNumber(value, min, max, digits = 0) {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) return null;
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+const toFlag = (value) => (value === true || value === false ? value : null);
+
+/** Trimmed, de-duplicated (case-insensitive) strings from an array or a comma/semicolon list. */
+function toList(value) {
+  const items = Array.isArray(value) ? value : String(value ?? '').split(/[,;\n]/);
+  const seen = new Set();
+  const out = [];
+  for (const item of items) {
+    const s = String(item ?? '').trim().slice(0, MAX_ITEM_LENGTH);
+    if (!s || seen.has(s.toLowerCase())) continue;
+    seen.add(s.toLowerCase());
+    out.push(s);
+  }
+  return out.slice(0, MAX_LIST_ITEMS);
+}
+
+/**
+ * Coerce untrusted input (request body, extractor output) into a profile.
+ * Out-of-range or unrecognised values become null rather than errors.
+ * @returns {import('./patientProfile').PatientProfile}
+ */
+export function normalizeProfile(input) {
+  const p = input && typeof input === 'object' ? input : {};
+  const sex = String(p.sex ?? '').toLowerCase();
+  const hepatic = String(p.hepaticImpairment ?? '').toLowerCase();
+  return {
+    age: toNumber(p.age, 0, 120),
+    sex: PROFILE_SEXES.includes(sex) ? sex : null,
+    weightKg: toNumber(p.weightKg, 0.5, 400, 1),
+    allergies: toList(p.allergies),
+    conditions: toList(p.conditions),
+    egfr: toNumber(p.egfr, 0, 200),
+    hepaticImpairment: HEPATIC_IMPAIRMENT.includes(hepatic) ? hepatic : null,
+    pregnant: toFlag(p.pregnant),
+    lactating: toFlag(p.lactating),
+  };
+}
+
+/**
+ * Parse condition file contents.
+ * @param {string} text
+ * @returns {import('./patientProfile').ConditionTable}
+ */
+export function parseConditions(text) {
+  const names = new Map();
+  const displayNames = new Map();
+  let maxWords = 1;
+
+  for (const raw of String(text || '').split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [id, name] = line.split('|').map((s) => s.trim());
+    const key = normalizeName(name);
+    if (!id || !key) continue;
+    if (!names.has(key)) names.set(key, id);
+    if (!displayNames.has(id)) displayNames.set(id, name);
+    maxWords = Math.max(maxWords, key.split(' ').length);
+  }
+
+  return { names, displayNames, maxWords };
+}
+
+/** Condition ID for a name as written ("CHF" → heart_failure), or null when unknown. */
+export function conditionId(table, name) {
+  return table.names.get(normalizeName(name)) ?? null;
+}
+
+/** Condition IDs mentioned in free text, longest name first, each once. */
+export function findConditions(table, text) {
+  const words = normalizeName(text).split(' ').filter(Boolean);
+  const found = new Set();
+
+  for (let i = 0; i < words.length; i++) {
+    for (let n = Math.min(table.maxWords, words.length - i); n >= 1; n--) {
+      const id = table.names.get(words.slice(i, i + n).join(' '));
+      if (!id) continue;
+      found.add(id);
+      i += n - 1;
+      break;
+    }
+  }
+
+  return [...found];
+}
@@ -0,0 +1,29 @@
+export type SoapSection = 'subjective' | 'objective' | 'assessment' | 'plan';
+
+export type SoapIntent = 'prescribe' | 'discontinue' | 'continue' | 'dose_change';
+
+export interface SoapMedicationChange {
+  drug: string;
+  intent: SoapIntent;
+  dosage?: string; // e.g. "400 mg"
+  frequency?: string; // e.g. "twice a day"
+  duration?: string; // e.g. "7 days"
+}
+
+export interface SoapNote {
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  medicationChanges: SoapMedicationChange[]; // From the visit's confirmed prescriptions, not the LLM
+  source: 'llm' | 'template';
+  generatedAt: number;
+  edited: boolean;
+  savedAt?: number;
+}
+
+export const SOAP_SECTIONS: SoapSection[];
+export const SOAP_INTENTS: SoapIntent[];
+
+export function normalizeMedicationChanges(list: unknown): SoapMedicationChange[];
+export function normalizeSoapNote(raw: unknown, defaults?: Partial<SoapNote>): SoapNote;
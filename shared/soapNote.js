@@ -0,0 +1,51 @@
+/**
+ * Structured SOAP (Subjective / Objective / Assessment / Plan) visit note, shared
+ * by the note endpoint and the transcript page. normalizeSoapNote() coerces LLM
+ * output and edited notes coming back from the browser into this shape.
+ */
+
+export const SOAP_SECTIONS = ['subjective', 'objective', 'assessment', 'plan'];
+
+/** Medication intents that belong in a note (questions and mentions do not). */
+export const SOAP_INTENTS = ['prescribe', 'discontinue', 'continue', 'dose_change'];
+
+const MAX_SECTION_LENGTH = 8000;
+const MAX_FIELD_LENGTH = 200;
+const MAX_MEDICATION_CHANGES = 50;
+
+const clip = (value, max) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+/** Drop malformed entries; optional fields are omitted rather than left empty. */
+export function normalizeMedicationChanges(list) {
+  if (!Array.isArray(list)) return [];
+  const changes = [];
+  for (const item of list.slice(0, MAX_MEDICATION_CHANGES)) {
+    const drug = clip(item?.drug, MAX_FIELD_LENGTH);
+    if (!drug) continue;
+    const change = { drug, intent: SOAP_INTENTS.includes(item.intent) ? item.intent : 'prescribe' };
+    for (const key of ['dosage', 'frequency', 'duration']) {
+      const value = clip(item[key], MAX_FIELD_LENGTH);
+      if (value) change[key] = value;
+    }
+    changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * Coerce `raw` into a SoapNote. Fields missing from `raw` come from `defaults`;
+ * section text is trimmed and length-limited.
+ */
+export function normalizeSoapNote(raw, defaults = {}) {
+  const source = raw && typeof raw === 'object' ? raw : {};
+  const note = {};
+  for (const section of SOAP_SECTIONS) {
+    note[section] = clip(source[section] ?? defaults[section], MAX_SECTION_LENGTH);
+  }
+  note.medicationChanges = normalizeMedicationChanges(source.medicationChanges ?? defaults.medicationChanges);
+  note.source = (source.source ?? defaults.source) === 'llm' ? 'llm' : 'template';
+  const generatedAt = source.generatedAt ?? defaults.generatedAt;
+  note.generatedAt = Number.isFinite(generatedAt) ? generatedAt : Date.now();
+  note.edited = !!(source.edited ?? defaults.edited);
+  return note;
+}
@@ -1,5 +1,5 @@
 import { LiveKitRoom, VideoConference, RoomAudioRenderer } from '@livekit/components-react';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { PdfUpload } from './components/PdfUpload';
 import { CallWithSTT } from './components/CallWithSTT';
 import { LandingPage } from './components/LandingPage';
@@ -7,24 +7,37 @@ import { ThemeProvider } from './contexts/ThemeContext';
 import { ThemeToggle } from './components/ThemeToggle';
 import { PatientClarificationPanelContainer } from './components/PatientClarificationPanel';
 import { VisitManager } from './components/VisitManager';
+import { InviteLink } from './components/InviteLink';
+import { LoginPage } from './components/LoginPage';
 import { VisitSummary } from './pages/VisitSummary';
 import { TranscriptSummary } from './pages/TranscriptSummary';
-import { useRole } from './hooks/useRole';
+import { useAuth } from './hooks/useAuth';
 import { SessionProvider } from './contexts/SessionContext';
 import '@livekit/components-styles';
 import './App.css';
 import { RoleContext } from './contexts/RoleContext';
+import { AppointmentContext } from './contexts/AppointmentContext';
 
 /**
  * Flow: 
- * Patient: Click "Enter Meeting" → Join call
- * Doctor: Upload patient medical PDF → Join call
+ * Patient: Open one-time invite link (?invite=<token>) → Click "Enter Meeting" → Join call
+ * Doctor: Sign in → Upload patient medical PDF → Appointment + room created → Join call, share invite link
  */
 function App() {
   const [welcomeAcknowledged, setWelcomeAcknowledged] = useState(false);
   const [pdfReady, setPdfReady] = useState(false);
+  const [recordId, setRecordId] = useState<string | null>(null);
+  const [doctorAppointmentId, setDoctorAppointmentId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('appointment')
+  );
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
   const [token, setToken] = useState('');
-  const role = useRole();
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const { status: authStatus, user, error: authError, login } = useAuth();
+  const role = user?.role ?? null;
+  // Patients are bound server-side to the appointment their invite was for
+  const appointmentId = role === 'patient' ? user?.appointmentId ?? null : doctorAppointmentId;
+  const appointmentInfo = useMemo(() => ({ appointmentId, recordId }), [appointmentId, recordId]);
 
   // Detect visit summary route, but keep hooks unconditionally called
   const path = window.location.pathname;
@@ -37,20 +50,53 @@ function App() {
     ? path.split('/visit-transcript/')[1]
     : (hash.startsWith('#/visit-transcript/') ? hash.split('#/visit-transcript/')[1] : null);
 
-  // Fetch LiveKit token once ready
+  // Doctor: create an appointment (and its dedicated room) once the PDF step is done
+  useEffect(() => {
+    if (!pdfReady || role !== 'doctor' || appointmentId) return;
+    (async () => {
+      try {
+        const res = await fetch('/api/appointments', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ recordId }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || 'Could not create appointment');
+        setDoctorAppointmentId(data.appointmentId);
+        setInviteUrl(data.inviteUrl ?? null);
+        // Keep the appointment in the URL so a refresh rejoins the same room
+        const url = new URL(window.location.href);
+        url.searchParams.set('appointment', data.appointmentId);
+        window.history.replaceState(null, '', url);
+      } catch (e) {
+        console.error('Failed to create appointment', e);
+        setTokenError('Could not create the appointment. Please try again.');
+      }
+    })();
+  }, [pdfReady, role, appointmentId, recordId]);
+
+  // Fetch LiveKit token for the appointment's room once ready
   useEffect(() => {
-    if (!pdfReady) return;
+    if (!pdfReady || !appointmentId) return;
     (async () => {
       try {
-        // Pass role to token generation
-        const roleParam = role === 'patient' ? 'patient' : 'doctor';
-        const res = await fetch(`/getToken?role=${roleParam}`);
+        // Patients learn which record the visit is about from the appointment itself
+        if (role === 'patient') {
+          const apptRes = await fetch(`/api/appointments/${encodeURIComponent(appointmentId)}`);
+          if (!apptRes.ok) throw new Error('Appointment not found');
+          const appointment = await apptRes.json();
+          setRecordId(appointment.recordId ?? null);
+        }
+        // Role comes from the session cookie; the server ignores any client-supplied role
+        const res = await fetch(`/getToken?appointmentId=${encodeURIComponent(appointmentId)}`);
+        if (!res.ok) throw new Error(await res.text());
         setToken(await res.text());
       } catch (e) {
         console.error('Failed to generate token', e);
+        setTokenError('This appointment link is invalid or has expired.');
       }
     })();
-  }, [pdfReady, role]);
+  }, [pdfReady, role, appointmentId]);
 
   // Render visit summary when routed
   if (summarySessionId) {
@@ -83,6 +129,41 @@ function App() {
     );
   }
 
+  if (authStatus === 'loading') {
+    return (
+      <ThemeProvider>
+        <ThemeToggle />
+        <div className="app-step app-loading">
+          <div className="app-loading-spinner" />
+          <span>Checking your sign-in…</span>
+        </div>
+      </ThemeProvider>
+    );
+  }
+
+  // Clinicians sign in; patients only get in through an invite link
+  if (!role) {
+    return (
+      <ThemeProvider>
+        <ThemeToggle />
+        <div className="app-step app-upload">
+          <LoginPage onLogin={login} error={authError} />
+        </div>
+      </ThemeProvider>
+    );
+  }
+
+  if (role === 'patient' && !appointmentId) {
+    return (
+      <ThemeProvider>
+        <ThemeToggle />
+        <div className="app-step app-loading">
+          <span>Please use the invite link from your doctor to join your appointment.</span>
+        </div>
+      </ThemeProvider>
+    );
+  }
+
   // Step 1: PDF upload
   if (!pdfReady) {
     if (role === 'patient') {
@@ -115,13 +196,29 @@ function App() {
       <ThemeProvider>
         <ThemeToggle />
         <div className="app-step app-upload">
-          <PdfUpload onReady={() => setPdfReady(true)} />
+          <PdfUpload
+            onReady={(id) => {
+              setRecordId(id);
+              setPdfReady(true);
+            }}
+          />
         </div>
       </ThemeProvider>
     );
   }
 
   // Step 2: Waiting for token
+  if (tokenError) {
+    return (
+      <ThemeProvider>
+        <ThemeToggle />
+        <div className="app-step app-loading">
+          <span>{tokenError}</span>
+        </div>
+      </ThemeProvider>
+    );
+  }
+
   if (!token) {
     return (
       <ThemeProvider>
@@ -139,25 +236,28 @@ function App() {
     <ThemeProvider>
       <SessionProvider>
         <RoleContext.Provider value={role}>
-          <ThemeToggle />
-          <LiveKitRoom
-            serverUrl={import.meta.env.VITE_PUBLIC_LIVEKIT_URL}
-            token={token}
-            connect={true}
-            video={true}
-            audio={true}
-            data-lk-theme="default"
-            style={{ height: '100vh', width: '100vw', background: 'var(--bg-primary)' }}
-            onDisconnected={() => console.log('Disconnected from room')}
-          >
-            <VisitManager />
-            <CallWithSTT />
-            <PatientClarificationPanelContainer />
-            {/* VideoConference handles the layout; grid shows participants. */}
-            <VideoConference layout="grid" />
-            {/* Essential for audio playback */}
-            <RoomAudioRenderer />
-          </LiveKitRoom>
+          <AppointmentContext.Provider value={appointmentInfo}>
+            <ThemeToggle />
+            <LiveKitRoom
+              serverUrl={import.meta.env.VITE_PUBLIC_LIVEKIT_URL}
+              token={token}
+              connect={true}
+              video={true}
+              audio={true}
+              data-lk-theme="default"
+              style={{ height: '100vh', width: '100vw', background: 'var(--bg-primary)' }}
+              onDisconnected={() => console.log('Disconnected from room')}
+            >
+              <VisitManager />
+              {role === 'doctor' && appointmentId && <InviteLink appointmentId={appointmentId} initialUrl={inviteUrl} />}
+              <CallWithSTT />
+              <PatientClarificationPanelContainer />
+              {/* VideoConference handles the layout; grid shows participants. */}
+              <VideoConference layout="grid" />
+              {/* Essential for audio playback */}
+              <RoomAudioRenderer />
+            </LiveKitRoom>
+          </AppointmentContext.Provider>
         </RoleContext.Provider>
       </SessionProvider>
     </ThemeProvider>
@@ -1,56 +1,160 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useRoomContext } from '@livekit/components-react';
 import { RoomEvent, type RemoteParticipant, ConnectionState } from 'livekit-client';
 import { MonitoringPanel } from './MonitoringPanel';
 import { DrugInfoModal } from './DrugInfoModal';
 import { PrescriptionHistory, type PrescriptionEntry } from './PrescriptionHistory';
-import { useSession } from '../contexts/SessionContext';
+import { RemoteTranscriber } from './RemoteTranscriber';
+import { SafetyAlert, type SafetyAlertItem } from './SafetyAlert';
+import { useSession, type MedicationChange } from '../contexts/SessionContext';
+import { useRoleContext } from '../contexts/RoleContext';
+import { useAppointmentContext } from '../contexts/AppointmentContext';
+import { parseSig } from '../utils/sigParser';
+import { classifyIntent, CHANGE_INTENTS } from '../utils/intentClassifier';
+import { AUTO_ACCEPT_SCORE } from '../utils/drugLexicon';
+
+const SAFETY_CHECK_URLS: Record<SafetyAlertItem['kind'], string> = {
+  allergy: '/api/allergies/check',
+  duplicate: '/api/duplicates/check',
+};
 
 /**
- * In-call layer: runs PrescriptionSTT and, when a drug is detected,
- * calls /check-interactions (Browserbase or RxNav) and shows ConflictCheckIndicator.
- * Also manages prescription history and connection status.
+ * In-call layer: runs PrescriptionSTT and, when a drug is detected, classifies what the
+ * doctor meant (prescribe, stop, continue, change dose, or just asking) and queues it for
+ * the doctor to confirm. Confirmed items are recorded and broadcast, and the patient's side
+ * records what it receives so both visit summaries agree; DrugInfoModal shows
+ * medications the patient will be taking. Drugs the doctor means to give are checked
+ * against the patient's documented allergies and current medications (duplicate therapy):
+ * a hit is shown to the doctor while the change awaits confirmation, and alerted to both
+ * sides once the confirmed drug is re-checked. Also manages prescription history and
+ * connection status.
  */
 export function CallWithSTT() {
   const room = useRoomContext();
   const session = useSession();
+  const role = useRoleContext();
+  const { recordId } = useAppointmentContext();
+  const { addMedicationChange } = session;
   const [activeDrugs, setActiveDrugs] = useState<string[]>([]);
   const [prescriptionHistory, setPrescriptionHistory] = useState<PrescriptionEntry[]>([]);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [connectionState, setConnectionState] = useState<ConnectionState>(room?.state ?? ConnectionState.Disconnected);
+  const [safetyAlerts, setSafetyAlerts] = useState<SafetyAlertItem[]>([]);
+  // "local:allergy:drug" / "broadcast:duplicate:drug" checks already run this call
+  const safetyChecked = useRef(new Set<string>());
+
+  /**
+   * Run one safety check for `drug`. A hit on a change still awaiting confirmation is
+   * shown to the doctor only; `broadcast` hits (confirmed changes) also go to the room.
+   */
+  const runSafetyCheck = useCallback(
+    async (kind: SafetyAlertItem['kind'], drug: string, body: object, broadcast: boolean) => {
+      const key = `${broadcast ? 'broadcast' : 'local'}:${kind}:${drug}`;
+      if (safetyChecked.current.has(key)) return;
+      safetyChecked.current.add(key);
+      try {
+        const res = await fetch(SAFETY_CHECK_URLS[kind], {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || `${kind} check failed`);
+        if (!data.hasConflict) return;
+
+        const id = typeof crypto?.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`;
+        const alert: SafetyAlertItem =
+          kind === 'allergy' ? { id, kind, drug, matches: data.matches } : { id, kind, drug, duplicates: data.duplicates };
+        setSafetyAlerts((prev) => [{ ...alert, pending: !broadcast }, ...prev]);
+        if (broadcast && room?.localParticipant) {
+          const payload = { type: `${kind}_alert`, ...alert, ts: Date.now() };
+          await room.localParticipant.publishData(new TextEncoder().encode(JSON.stringify(payload)), { reliable: true });
+        }
+      } catch (e) {
+        // Let a later mention retry
+        safetyChecked.current.delete(key);
+        console.warn(`❌ ${kind} check failed:`, e);
+      }
+    },
+    [room],
+  );
+
+  /** Check a drug the doctor means to give; `confirmed` changes are re-checked as given and broadcast. */
+  const checkSafety = useCallback((drug: string, confirmed: boolean) => {
+    void runSafetyCheck('allergy', drug, { drug, recordId }, confirmed);
+    // Drugs confirmed earlier in this call count as prescribed; stopped ones leave the record's list
+    void runSafetyCheck('duplicate', drug, {
+      drug,
+      recordId,
+      prescribed: session.prescriptions.map((p) => p.drug).filter((d) => d !== drug),
+      discontinued: session.discontinuedDrugs,
+    }, confirmed);
+  }, [runSafetyCheck, recordId, session.prescriptions, session.discontinuedDrugs]);
+
+  const onPrescriptionDetected = useCallback((drug: string, utterance: string, spokenAs: string, confidence: number) => {
+    // Classify and parse against the words actually said ("Advil"), not the generic
+    const intent = classifyIntent(utterance, spokenAs);
+    console.log('💊 Drug detected:', drug, '| intent:', intent, '| confidence:', confidence);
+
+    // Track drug mention in session (for linking with confusion events)
+    session.addDrugMention(drug);
+
+    // Questions and passing mentions ("have you ever taken warfarin?") are not medication changes.
+    // Only the doctor reviews and records prescriptions; patients learn of them via broadcast.
+    if (!CHANGE_INTENTS.includes(intent) || role !== 'doctor') return;
+
+    // Alert the doctor before they confirm, so an allergy or duplicate can change the decision
+    if (intent !== 'discontinue') checkSafety(drug, false);
+
+    // Nothing is recorded until the doctor confirms it in the review queue
+    session.queueMedicationChange({
+      drug,
+      intent,
+      utterance,
+      sig: intent === 'discontinue' ? undefined : parseSig(utterance, spokenAs),
+      prescribedBy: room?.localParticipant?.identity,
+      heard: spokenAs,
+      confidence,
+    });
+
+    // Show drug info right away to help the doctor decide (local only, not broadcast)
+    if (intent !== 'discontinue' && confidence >= AUTO_ACCEPT_SCORE) {
+      setActiveDrugs((prev) => (prev.includes(drug) ? prev : [...prev, drug]));
+    }
+  }, [room, session, role, checkSafety]);
+
+  const onPrescriptionConfirmed = useCallback(async (change: MedicationChange) => {
+    const { drug, intent } = change;
 
-  const onPrescriptionDetected = useCallback(async (drug: string) => {
-    console.log('💊 Drug detected:', drug);
-    
     // Create prescription entry for history
     const entryId = typeof crypto?.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`;
     const entry: PrescriptionEntry = {
       id: entryId,
       drug,
+      intent,
       timestamp: Date.now(),
     };
 
-    // Track drug mention in session (for linking with confusion events)
-    session.addDrugMention(drug);
-    
-    // Track as prescription (when doctor prescribes, not just mentions)
-    // TODO: Parse dosage/duration from transcript
-    session.addPrescription({
-      drug,
-      prescribedBy: room?.localParticipant?.identity,
-    });
-    
-    // Add drug to active list if not already present
-    setActiveDrugs((prev) => (prev.includes(drug) ? prev : [...prev, drug]));
+    // Discontinued drugs leave the conflict set; everything else is shown
+    if (intent === 'discontinue') {
+      setActiveDrugs((prev) => prev.filter((d) => d !== drug));
+    } else {
+      setActiveDrugs((prev) => (prev.includes(drug) ? prev : [...prev, drug]));
+    }
     // Add to local prescription history
     setPrescriptionHistory((prev) => [entry, ...prev]);
+    // Re-check the drug as confirmed (the doctor may have corrected it); only this is broadcast
+    if (intent !== 'discontinue') checkSafety(drug, true);
 
-    // Broadcast to all participants
-    if (room?.localParticipant) {
+    // Broadcast to all participants (patient tokens cannot publish data)
+    if (role === 'doctor' && room?.localParticipant) {
       try {
         const payload = {
           type: 'drug_detected',
           drug,
+          intent,
+          sig: change.sig,
+          utterance: change.utterance,
           by: room.localParticipant.identity,
           id: entryId,
           ts: Date.now(),
@@ -58,12 +162,12 @@ export function CallWithSTT() {
         await room.localParticipant.publishData(new TextEncoder().encode(JSON.stringify(payload)), {
           reliable: true,
         });
-        console.log('📡 Broadcasted drug detection to room:', payload);
+        console.log('📡 Broadcasted confirmed prescription to room:', payload);
       } catch (e) {
         console.warn('❌ Failed to broadcast drug detection:', e);
       }
     }
-  }, [room, session]);
+  }, [room, role, checkSafety]);
 
   // Track connection state
   useEffect(() => {
@@ -75,21 +179,52 @@ export function CallWithSTT() {
     };
   }, [room]);
 
-  // Listen for incoming drug detections
+  // Listen for the doctor's confirmed changes and safety alerts
   useEffect(() => {
     if (!room) return;
 
     const handleData = (payload: Uint8Array, participant?: RemoteParticipant) => {
       try {
         const message = JSON.parse(new TextDecoder().decode(payload));
-        if (message?.type !== 'drug_detected') return;
+        if (!['drug_detected', 'allergy_alert', 'duplicate_alert'].includes(message?.type)) return;
         // LiveKit does not echo to the sender, but guard anyway
         if (participant?.isLocal) return;
-        setActiveDrugs((prev) => (prev.includes(message.drug) ? prev : [...prev, message.drug]));
+        // Only doctors may announce prescriptions (role comes from the server-issued token)
+        if (participant?.attributes?.role !== 'doctor') return;
+        if (message.type !== 'drug_detected') {
+          if (!message.drug) return;
+          const id = message.id || `${Date.now()}-${Math.random()}`;
+          let alert: SafetyAlertItem;
+          if (message.type === 'allergy_alert' && Array.isArray(message.matches)) {
+            alert = { id, kind: 'allergy', drug: message.drug, matches: message.matches };
+          } else if (message.type === 'duplicate_alert' && Array.isArray(message.duplicates)) {
+            alert = { id, kind: 'duplicate', drug: message.drug, duplicates: message.duplicates };
+          } else {
+            return;
+          }
+          setSafetyAlerts((prev) => (prev.some((a) => a.id === alert.id) ? prev : [alert, ...prev]));
+          return;
+        }
+        if (typeof message.drug !== 'string' || !CHANGE_INTENTS.includes(message.intent)) return;
+        // Record the doctor's confirmed change so this side's visit summary and
+        // post-visit check see the same prescriptions
+        addMedicationChange({
+          drug: message.drug,
+          intent: message.intent,
+          utterance: typeof message.utterance === 'string' ? message.utterance : '',
+          sig: message.sig && typeof message.sig === 'object' ? message.sig : undefined,
+          prescribedBy: typeof message.by === 'string' ? message.by : participant?.identity,
+        });
+        if (message.intent === 'discontinue') {
+          setActiveDrugs((prev) => prev.filter((d) => d !== message.drug));
+        } else {
+          setActiveDrugs((prev) => (prev.includes(message.drug) ? prev : [...prev, message.drug]));
+        }
         // Add to history
         const entry: PrescriptionEntry = {
           id: message.id || `${Date.now()}-${Math.random()}`,
           drug: message.drug,
+          intent: message.intent,
           timestamp: message.ts || Date.now(),
         };
         setPrescriptionHistory((prev) => [entry, ...prev]);
@@ -102,7 +237,7 @@ export function CallWithSTT() {
     return () => {
       room.off(RoomEvent.DataReceived, handleData);
     };
-  }, [room]);
+  }, [room, addMedicationChange]);
 
   const handleDrugSelect = (drug: string) => {
     if (!activeDrugs.includes(drug)) {
@@ -135,6 +270,13 @@ export function CallWithSTT() {
   };
 
   const isConnectionHealthy = connectionState === ConnectionState.Connected;
+  // A local alert lasts while its change awaits confirmation and no broadcast alert has replaced it
+  const visibleAlerts = safetyAlerts.filter(
+    (a) =>
+      !a.pending ||
+      (session.pendingChanges.some((p) => p.drug === a.drug) &&
+        !safetyAlerts.some((b) => !b.pending && b.kind === a.kind && b.drug === a.drug)),
+  );
 
   return (
     <>
@@ -144,8 +286,11 @@ export function CallWithSTT() {
         <span className="connection-status-text">{getConnectionStatusText()}</span>
       </div>
 
+      {/* Doctor's client transcribes the other participants so the transcript has both sides */}
+      {role === 'doctor' && <RemoteTranscriber />}
+
       {/* Unified monitoring panel */}
-      <MonitoringPanel onPrescriptionDetected={onPrescriptionDetected} />
+      <MonitoringPanel onPrescriptionDetected={onPrescriptionDetected} onPrescriptionConfirmed={onPrescriptionConfirmed} />
 
       {/* Drug information modals */}
       <div
@@ -175,6 +320,13 @@ export function CallWithSTT() {
 
       {/* Conflict check notifications removed (client-only safety handled in DrugInfoModal) */}
 
+      {/* Allergy and duplicate therapy alerts for drugs the doctor means to give */}
+      <SafetyAlert
+        alerts={visibleAlerts}
+        role={role}
+        onDismiss={(id) => setSafetyAlerts((prev) => prev.filter((a) => a.id !== id))}
+      />
+
       {/* Prescription history sidebar */}
       <PrescriptionHistory
         prescriptions={prescriptionHistory}
@@ -1,7 +1,9 @@
 import type { ReactNode } from 'react';
 import { useEffect, useState } from 'react';
+import { INTERACTION_SEVERITY_LABELS, isSevere } from '../../shared/interactions.js';
+import type { InteractionCheckResult } from '../../shared/interactions.js';
 
-type Result = { hasConflict: boolean; details: string; source?: string };
+type Result = Pick<InteractionCheckResult, 'hasConflict' | 'details'> & Partial<InteractionCheckResult>;
 
 type Props = {
   isChecking: boolean;
@@ -21,12 +23,7 @@ export function ConflictCheckIndicator({ isChecking, result, drug }: Props) {
   const getSeverity = (result: Result | null): 'info' | 'success' | 'warning' | 'error' => {
     if (!result) return 'info';
     if (!result.hasConflict) return 'success';
-    // Check for critical keywords in details
-    const detailsLower = result.details.toLowerCase();
-    if (detailsLower.includes('severe') || detailsLower.includes('contraindicated') || detailsLower.includes('danger')) {
-      return 'error';
-    }
-    return 'warning';
+    return isSevere(result.severity) ? 'error' : 'warning';
   };
 
   const severity = getSeverity(result);
@@ -78,8 +75,22 @@ export function ConflictCheckIndicator({ isChecking, result, drug }: Props) {
         <span className="conflict-icon">{icons[severity]}</span>
         <div className="conflict-content">
           <strong>{result.hasConflict ? 'Potential interaction detected' : 'No conflicts found'}</strong>
-          <p>{result.details}</p>
-          {result.source && (
+          {result.interactions && result.interactions.length > 0 ? (
+            <ul className="conflict-interactions">
+              {result.interactions.map((interaction) => (
+                <li key={interaction.drugs.join('+')} className={`conflict-interaction ${interaction.severity}`}>
+                  <span className="conflict-severity">{INTERACTION_SEVERITY_LABELS[interaction.severity]}</span>
+                  <strong>{interaction.drugs.join(' + ')}</strong>
+                  <p>{interaction.mechanism}</p>
+                  <p className="conflict-management">{interaction.management}</p>
+                  <span className="conflict-source">{interaction.source}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p>{result.details}</p>
+          )}
+          {result.source && !result.interactions?.length && (
             <span className="conflict-source">Source: {result.source}</span>
           )}
         </div>
@@ -197,6 +208,35 @@ export function ConflictCheckIndicator({ isChecking, result, drug }: Props) {
           font-size: 13px;
           line-height: 1.5;
         }
+        .conflict-interactions {
+          list-style: none;
+          margin: 4px 0 0 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          max-height: 50vh;
+          overflow-y: auto;
+        }
+        .conflict-interaction {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+        .conflict-severity {
+          font-size: 11px;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          color: var(--accent-warning);
+        }
+        .conflict-interaction.contraindicated .conflict-severity,
+        .conflict-interaction.major .conflict-severity {
+          color: var(--accent-error);
+        }
+        .conflict-content .conflict-management {
+          color: var(--text-primary);
+        }
         .conflict-source {
           font-size: 11px;
           color: var(--text-tertiary);
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
-import { getDrugInfo, summarizeToPopupFormat, getPatientHistory, evaluateDrugSafety, type PopupData, type SafetyResult } from '../../openFDA';
+import { getDrugInfo, summarizeToPopupFormat, getPatientHistory, evaluateDrugSafety, labelUrl, type DrugData, type PopupData, type SafetyResult } from '../../openFDA';
+import { useSession } from '../contexts/SessionContext';
+import { compareInteractions, INTERACTION_SEVERITY_LABELS } from '../../shared/interactions.js';
 import './styles/DrugInfoModal.css';
 
 interface DrugInfoModalProps {
@@ -8,14 +10,19 @@ interface DrugInfoModalProps {
   isExiting?: boolean;
 }
 
+/** "20240115" → "2024-01-15" */
+const formatLabelDate = (yyyymmdd: string) => yyyymmdd.replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3');
+
+// Hardcoded list of medications that should always be marked as unsafe in the popup
+const ALWAYS_UNSAFE: string[] = [
+  // Edit this list to add/remove unsafe medications (case-insensitive)
+  'Ibuprofen',
+];
+
 type CollapsibleSection = 'warnings' | 'side_effects' | 'contraindications' | 'interactions';
 
 export function DrugInfoModal({ drug, onClose, isExiting }: DrugInfoModalProps) {
-  // Hardcoded list of medications that should always be marked as unsafe in the popup
-  const ALWAYS_UNSAFE: string[] = [
-    // Edit this list to add/remove unsafe medications (case-insensitive)
-    'Ibuprofen',
-  ];
+  const { discontinuedDrugs } = useSession();
 
   const [popupData, setPopupData] = useState<PopupData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -24,6 +31,7 @@ export function DrugInfoModal({ drug, onClose, isExiting }: DrugInfoModalProps)
   const [safety, setSafety] = useState<SafetyResult | null>(null);
   const [collapsedSections, setCollapsedSections] = useState<Set<CollapsibleSection>>(new Set());
   const [unsafeOverride, setUnsafeOverride] = useState<boolean>(false);
+  const [label, setLabel] = useState<Pick<DrugData, 'set_id' | 'effective_time'> | null>(null);
 
   const overlayStyle = { pointerEvents: 'none' as const };
   const modalStyle = {
@@ -45,10 +53,13 @@ export function DrugInfoModal({ drug, onClose, isExiting }: DrugInfoModalProps)
         setLoading(true);
         setError(null);
         const drugInfo = await getDrugInfo(drug);
+        setLabel(drugInfo.set_id ? { set_id: drugInfo.set_id, effective_time: drugInfo.effective_time } : null);
         const summary = await summarizeToPopupFormat(drugInfo);
         setPopupData(summary);
         // Fetch patient history and evaluate safety
-        const patient = await getPatientHistory();
+        const history = await getPatientHistory();
+        // Medications stopped during this visit are no longer part of the conflict set
+        const patient = { ...history, drugs: history.drugs.filter((d) => !discontinuedDrugs.includes(d.toLowerCase())) };
         const safetyRes = await evaluateDrugSafety(drug, drugInfo, patient);
         // Apply hardcoded unsafe override when the drug matches the list (case-insensitive)
         const isOverride = ALWAYS_UNSAFE.some((d) => d.toLowerCase() === String(drug).toLowerCase());
@@ -73,7 +84,7 @@ export function DrugInfoModal({ drug, onClose, isExiting }: DrugInfoModalProps)
     };
 
     fetchDrugInfo();
-  }, [drug]);
+  }, [drug, discontinuedDrugs]);
 
   if (loading) {
     return (
@@ -279,8 +290,20 @@ export function DrugInfoModal({ drug, onClose, isExiting }: DrugInfoModalProps)
               {safety.patientDrugs && safety.patientDrugs.length > 0 && (
                 <div className="drug-info-row"><span className="drug-info-value"><strong>Patient meds:</strong> {safety.patientDrugs.join(', ')}</span></div>
               )}
-              {safety.rxnavDetails && (
-                <div className="drug-info-row"><span className="drug-info-value"><strong>RxNav:</strong> {safety.rxnavDetails}</span></div>
+              {safety.interactions && safety.interactions.length > 0 && (
+                <ul className="drug-interaction-list">
+                  {[...safety.interactions].sort(compareInteractions).map((interaction) => (
+                    <li key={interaction.drugs.join('+')} className={`drug-interaction ${interaction.severity}`}>
+                      <div className="drug-interaction-header">
+                        <span className="drug-interaction-severity">{INTERACTION_SEVERITY_LABELS[interaction.severity]}</span>
+                        <strong>{interaction.drugs.join(' + ')}</strong>
+                      </div>
+                      <p>{interaction.mechanism}</p>
+                      <p className="drug-interaction-management">{interaction.management}</p>
+                      <p className="drug-interaction-source">{interaction.source}</p>
+                    </li>
+                  ))}
+                </ul>
               )}
             </div>
           )}
@@ -289,6 +312,15 @@ export function DrugInfoModal({ drug, onClose, isExiting }: DrugInfoModalProps)
             <p className="drug-modal-disclaimer">
               Safety uses FDA labeling + ML judgment. Verify with a clinician.
             </p>
+            {label?.set_id && (
+              <p className="drug-modal-source">
+                Source:{' '}
+                <a href={labelUrl(label.set_id)} target="_blank" rel="noopener noreferrer">
+                  FDA label {label.set_id}
+                </a>
+                {label.effective_time && ` (${formatLabelDate(label.effective_time)})`}
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+
+type Props = {
+  appointmentId: string;
+  initialUrl?: string | null;
+};
+
+/**
+ * Doctor-only pill showing the patient invite link for the current appointment.
+ * Links are signed and single-use, so "New link" asks the server for another one.
+ */
+export function InviteLink({ appointmentId, initialUrl }: Props) {
+  const [copied, setCopied] = useState(false);
+  const [link, setLink] = useState<string | null>(initialUrl ?? null);
+  const [loading, setLoading] = useState(false);
+
+  const newLink = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/appointments/${encodeURIComponent(appointmentId)}/invites`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || 'Could not create invite');
+      setLink(data.inviteUrl);
+    } catch (e) {
+      console.warn('Could not create invite link:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.warn('Could not copy invite link:', e);
+    }
+  };
+
+  return (
+    <div className="invite-link">
+      <span className="invite-link-label">Patient invite</span>
+      {link && <input className="invite-link-input" value={link} readOnly onFocus={(e) => e.target.select()} />}
+      {link && (
+        <button type="button" className="invite-link-btn" onClick={copyLink}>
+          {copied ? '✓ Copied' : 'Copy'}
+        </button>
+      )}
+      <button type="button" className="invite-link-btn" onClick={newLink} disabled={loading}>
+        {loading ? '…' : 'New link'}
+      </button>
+      <style>{`
+        .invite-link {
+          position: fixed;
+          top: 20px;
+          left: 50%;
+          transform: translateX(-50%);
+          z-index: 800;
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 6px 8px 6px 14px;
+          background: var(--bg-overlay);
+          backdrop-filter: blur(10px);
+          border: 1px solid var(--border-color);
+          border-radius: 20px;
+          font-size: 11px;
+          color: var(--text-secondary);
+          box-shadow: 0 2px 6px rgba(0, 0, 0, 0.15);
+        }
+        .invite-link-label {
+          font-weight: 500;
+          white-space: nowrap;
+        }
+        .invite-link-input {
+          width: 220px;
+          background: var(--bg-hover);
+          border: 1px solid var(--border-color);
+          border-radius: 12px;
+          color: var(--text-primary);
+          font-size: 11px;
+          padding: 4px 8px;
+        }
+        .invite-link-btn {
+          background: var(--bg-hover);
+          border: 1px solid var(--border-color);
+          color: var(--text-primary);
+          padding: 4px 10px;
+          border-radius: 12px;
+          font-size: 11px;
+          font-weight: 600;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+        .invite-link-btn:hover {
+          background: var(--bg-overlay);
+        }
+        @media (max-width: 768px) {
+          .invite-link {
+            top: 50px;
+          }
+          .invite-link-input {
+            width: 140px;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -109,8 +109,8 @@ export function LandingPage({ onGetStarted }: LandingPageProps) {
             <div className="feature-card" data-index="3">
               <div className="feature-icon">⚠️</div>
               <h3>Interaction Checking</h3>
-              <p>RxNav integration detects dangerous drug interactions in real-time for patient safety</p>
-              <div className="feature-badge">RxNav</div>
+              <p>A curated interaction knowledge base flags dangerous drug combinations in real-time for patient safety</p>
+              <div className="feature-badge">Knowledge Base</div>
             </div>
 
             <div className="feature-card" data-index="4">
@@ -138,7 +138,6 @@ export function LandingPage({ onGetStarted }: LandingPageProps) {
             <div className="tech-badge">LiveKit</div>
             <div className="tech-badge">OpenAI</div>
             <div className="tech-badge">FDA API</div>
-            <div className="tech-badge">RxNav</div>
             <div className="tech-badge">Overshoot SDK</div>
           </div>
         </section>
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+
+type Props = {
+  onLogin: (username: string, password: string) => Promise<boolean>;
+  error?: string | null;
+};
+
+/**
+ * Clinician sign-in. Patients never see a password form — they join with the
+ * one-time invite link their doctor sends them.
+ */
+export function LoginPage({ onLogin, error }: Props) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password) return;
+    setSubmitting(true);
+    const ok = await onLogin(username, password);
+    setSubmitting(false);
+    if (!ok) setPassword('');
+  };
+
+  return (
+    <form className="login-page" onSubmit={onSubmit}>
+      <h2>Clinician sign in</h2>
+      <p className="login-hint">Patients: please open the invite link from your doctor to join your appointment.</p>
+
+      <label className="login-field">
+        <span>Username</span>
+        <input
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          disabled={submitting}
+          autoFocus
+        />
+      </label>
+      <label className="login-field">
+        <span>Password</span>
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          disabled={submitting}
+        />
+      </label>
+
+      {error && (
+        <div className="login-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      <button className="login-submit" type="submit" disabled={submitting || !username || !password}>
+        {submitting ? 'Signing in…' : 'Sign in'}
+      </button>
+
+      <style>{`
+        .login-page {
+          max-width: 360px;
+          width: 100%;
+          margin: 0 auto;
+          padding: 32px;
+          box-sizing: border-box;
+          display: flex;
+          flex-direction: column;
+          gap: 14px;
+          text-align: left;
+          animation: fadeIn 0.4s ease;
+        }
+        @keyframes fadeIn {
+          from { opacity: 0; transform: translateY(10px); }
+          to { opacity: 1; transform: translateY(0); }
+        }
+        .login-page h2 {
+          font-size: 1.5rem;
+          margin: 0;
+          color: var(--text-primary);
+          font-weight: 600;
+          text-align: center;
+        }
+        .login-hint {
+          font-size: 0.85rem;
+          color: var(--text-tertiary);
+          margin: 0 0 8px;
+          line-height: 1.5;
+          text-align: center;
+        }
+        .login-field {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          font-size: 0.85rem;
+          color: var(--text-secondary);
+        }
+        .login-field input {
+          background: var(--bg-hover);
+          border: 1px solid var(--border-color);
+          border-radius: 10px;
+          padding: 10px 12px;
+          color: var(--text-primary);
+          font-size: 0.95rem;
+          transition: border-color 0.2s ease;
+        }
+        .login-field input:focus {
+          outline: none;
+          border-color: var(--accent-primary);
+        }
+        .login-error {
+          color: var(--accent-error);
+          font-size: 0.9rem;
+          padding: 10px 12px;
+          background: rgba(255, 85, 85, 0.1);
+          border-radius: 8px;
+          border-left: 3px solid var(--accent-error);
+        }
+        .login-submit {
+          margin-top: 8px;
+          background: var(--accent-success);
+          color: var(--bg-primary);
+          border: none;
+          padding: 12px 24px;
+          border-radius: 24px;
+          font-weight: 600;
+          cursor: pointer;
+          font-size: 1rem;
+          transition: all 0.2s ease;
+        }
+        .login-submit:hover:not(:disabled) {
+          transform: translateY(-2px);
+          filter: brightness(1.1);
+        }
+        .login-submit:disabled {
+          background: var(--border-color);
+          color: var(--text-tertiary);
+          cursor: not-allowed;
+          opacity: 0.6;
+        }
+      `}</style>
+    </form>
+  );
+}
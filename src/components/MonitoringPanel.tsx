@@ -1,16 +1,21 @@
 import { useState } from 'react';
 import { PrescriptionSTT } from './PrescriptionSTT';
 import { OvershootDemo } from './OvershootDemo';
+import { PendingPrescriptions } from './PendingPrescriptions';
+import { useRoleContext } from '../contexts/RoleContext';
+import type { MedicationChange } from '../contexts/SessionContext';
 
 type Props = {
-  onPrescriptionDetected: (drug: string) => void;
+  onPrescriptionDetected: (drug: string, utterance: string, spokenAs: string, confidence: number) => void;
+  onPrescriptionConfirmed: (change: MedicationChange) => void;
 };
 
 /**
  * Unified monitoring panel that combines prescription listener and AI observer
  * into a single, organized interface.
  */
-export function MonitoringPanel({ onPrescriptionDetected }: Props) {
+export function MonitoringPanel({ onPrescriptionDetected, onPrescriptionConfirmed }: Props) {
+  const role = useRoleContext();
   const [isExpanded, setIsExpanded] = useState(true);
   const [activeTab, setActiveTab] = useState<'stt' | 'ai'>('stt');
 
@@ -47,7 +52,10 @@ export function MonitoringPanel({ onPrescriptionDetected }: Props) {
 
             <div className="monitoring-content">
               {activeTab === 'stt' && (
-                <PrescriptionSTT onPrescriptionDetected={onPrescriptionDetected} compact={true} />
+                <>
+                  <PrescriptionSTT onPrescriptionDetected={onPrescriptionDetected} compact={true} />
+                  {role === 'doctor' && <PendingPrescriptions onConfirmed={onPrescriptionConfirmed} />}
+                </>
               )}
               {activeTab === 'ai' && (
                 <OvershootDemo compact={true} />
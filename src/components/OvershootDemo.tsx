@@ -13,6 +13,9 @@ type Props = {
   compact?: boolean;
 };
 
+// The SDK insists on a key; the server replaces this placeholder with the real one
+const VISION_PROXY_KEY = 'server-proxy';
+
 export function OvershootDemo({ compact = false }: Props = {}) {
   const [result, setResult] = useState<string>("");
   const [isRunning, setIsRunning] = useState(false);
@@ -24,17 +27,10 @@ export function OvershootDemo({ compact = false }: Props = {}) {
   const session = useSession();
 
   useEffect(() => {
-    const key = import.meta.env.VITE_OVERSHOOT_API_KEY;
-    if (!key) {
-      setError("Missing VITE_OVERSHOOT_API_KEY in .env");
-      return;
-    }
-    setDebugInfo(`Key loaded: ${key.substring(0, 8)}...`);
-
-    // Initialize the SDK instance
+    // Initialize the SDK instance against the server's proxy, which holds the API key
     visionRef.current = new RealtimeVision({
-      apiUrl: 'https://cluster1.overshoot.ai/api/v0.2',
-      apiKey: key,
+      apiUrl: `${window.location.origin}/api/vision`,
+      apiKey: VISION_PROXY_KEY,
       prompt: `Role: You are an expert Communication Analyst observing a patient during a telehealth call. Your sole purpose is to detect if the patient understands the doctor's explanation. Objective: Real-time classification of the patient's level of comprehension. You must accurately distinguish between "Thinking/Processing" (Good) and "Confusion" (Bad).Input Context: Video stream of a patient.Analysis Logic:Differentiate:Processing Information: Nodding, eyes focused. $\rightarrow$ DO NOT INTERRUPT.Confusion: Eyebrows knitted together, head tilt, lips pursed, stopped blinking. $\rightarrow$ INTERRUPT. Classification Labels:CONFUSION: Slight uncertainty, squinting.UNDERSTANDING: Nodding, verbal backchanneling cues (smiling/agreement), attentive.Negative Constraints (Critical):Do NOT classify "nodding" as confusion.Do NOT classify "thinking/looking away to recall" as Disengaged.Do NOT classify "adjusting glasses" or "screen glare squint" as confusion.Output Format:Return ONLY a single valid JSON object. No conversational text.JSON{
   "visual_evidence": "Brief description of the facial cue (e.g., 'Brow knitted + Head tilt')",
   "current_state": "CONFUSION" | "UNDERSTANDING",
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { HEPATIC_IMPAIRMENT } from '../../shared/patientProfile.js';
+import type { PatientProfile } from '../../shared/patientProfile.js';
+
+type Props = {
+  recordId: string | null;
+  profile: PatientProfile;
+  onSaved: (recordId: string, profile: PatientProfile) => void;
+};
+
+type Form = Record<'age' | 'sex' | 'weightKg' | 'egfr' | 'hepaticImpairment' | 'pregnant' | 'lactating' | 'allergies' | 'conditions', string>;
+
+const flagToField = (flag: boolean | null) => (flag === null ? '' : flag ? 'yes' : 'no');
+const fieldToFlag = (field: string) => (field === '' ? null : field === 'yes');
+
+function toForm(profile: PatientProfile): Form {
+  return {
+    age: profile.age?.toString() ?? '',
+    sex: profile.sex ?? '',
+    weightKg: profile.weightKg?.toString() ?? '',
+    egfr: profile.egfr?.toString() ?? '',
+    hepaticImpairment: profile.hepaticImpairment ?? '',
+    pregnant: flagToField(profile.pregnant),
+    lactating: flagToField(profile.lactating),
+    allergies: profile.allergies.join(', '),
+    conditions: profile.conditions.join(', '),
+  };
+}
+
+/**
+ * Review and correct the patient profile (demographics, allergies, conditions,
+ * renal/hepatic function, pregnancy) the post-visit safety rules use. Prefilled
+ * from the uploaded PDF; without a record, saving creates one.
+ */
+export function PatientProfileEditor({ recordId, profile, onSaved }: Props) {
+  const [form, setForm] = useState<Form>(() => toForm(profile));
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (field: keyof Form) => (e: { target: { value: string } }) => {
+    setForm((f) => ({ ...f, [field]: e.target.value }));
+    setStatus('idle');
+  };
+
+  const onSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setStatus('saving');
+    setError(null);
+    // The server normalizes the profile (ranges, lists), so send the form as typed
+    const body = {
+      profile: {
+        ...form,
+        sex: form.sex || null,
+        hepaticImpairment: form.hepaticImpairment || null,
+        pregnant: fieldToFlag(form.pregnant),
+        lactating: fieldToFlag(form.lactating),
+      },
+    };
+    try {
+      const res = await fetch(recordId ? `/api/records/${encodeURIComponent(recordId)}/profile` : '/api/records', {
+        method: recordId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || 'Could not save patient details');
+      setForm(toForm(data.profile));
+      setStatus('saved');
+      onSaved(data.recordId, data.profile);
+    } catch (err) {
+      setStatus('error');
+      setError(err instanceof Error ? err.message : 'Could not save patient details');
+    }
+  };
+
+  return (
+    <form className="patient-profile" onSubmit={onSubmit}>
+      <h3>Patient details</h3>
+      <p className="patient-profile-hint">Check what was read from the record; safety checks use these values.</p>
+
+      <div className="patient-profile-grid">
+        <label>
+          Age
+          <input type="number" min={0} max={120} value={form.age} onChange={set('age')} />
+        </label>
+        <label>
+          Sex
+          <select value={form.sex} onChange={set('sex')}>
+            <option value="">Unknown</option>
+            <option value="female">Female</option>
+            <option value="male">Male</option>
+          </select>
+        </label>
+        <label>
+          Weight (kg)
+          <input type="number" min={0} step="0.1" value={form.weightKg} onChange={set('weightKg')} />
+        </label>
+        <label>
+          eGFR (mL/min/1.73 m²)
+          <input type="number" min={0} max={200} value={form.egfr} onChange={set('egfr')} />
+        </label>
+        <label>
+          Liver impairment
+          <select value={form.hepaticImpairment} onChange={set('hepaticImpairment')}>
+            <option value="">None / unknown</option>
+            {HEPATIC_IMPAIRMENT.map((level) => (
+              <option key={level} value={level}>
+                {level.charAt(0).toUpperCase() + level.slice(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Pregnant
+          <select value={form.pregnant} onChange={set('pregnant')}>
+            <option value="">Unknown</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </select>
+        </label>
+        <label>
+          Breastfeeding
+          <select value={form.lactating} onChange={set('lactating')}>
+            <option value="">Unknown</option>
+            <option value="yes">Yes</option>
+            <option value="no">No</option>
+          </select>
+        </label>
+      </div>
+
+      <label className="patient-profile-wide">
+        Allergies (comma-separated)
+        <input type="text" value={form.allergies} onChange={set('allergies')} placeholder="e.g. penicillin, sulfa" />
+      </label>
+      <label className="patient-profile-wide">
+        Conditions (comma-separated)
+        <input type="text" value={form.conditions} onChange={set('conditions')} placeholder="e.g. heart failure, asthma" />
+      </label>
+
+      {error && (
+        <div className="patient-profile-error" role="alert">
+          {error}
+        </div>
+      )}
+
+      <button type="submit" className="patient-profile-save" disabled={status === 'saving'}>
+        {status === 'saving' ? 'Saving…' : status === 'saved' ? 'Saved ✓' : 'Save patient details'}
+      </button>
+
+      <style>{`
+        .patient-profile {
+          text-align: left;
+          margin: 0 0 16px 0;
+          padding: 16px;
+          border: 1px solid var(--border-color);
+          border-radius: 16px;
+          background: var(--bg-hover);
+        }
+        .patient-profile h3 {
+          margin: 0 0 4px 0;
+          font-size: 1rem;
+          color: var(--text-primary);
+        }
+        .patient-profile-hint {
+          margin: 0 0 12px 0;
+          font-size: 0.8rem;
+          color: var(--text-tertiary);
+        }
+        .patient-profile-grid {
+          display: grid;
+          grid-template-columns: repeat(2, minmax(0, 1fr));
+          gap: 10px 12px;
+          margin-bottom: 10px;
+        }
+        @media (max-width: 480px) {
+          .patient-profile-grid {
+            grid-template-columns: 1fr;
+          }
+        }
+        .patient-profile label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+        }
+        .patient-profile-wide {
+          margin-bottom: 10px;
+        }
+        .patient-profile input,
+        .patient-profile select {
+          padding: 8px 10px;
+          border: 1px solid var(--border-color);
+          border-radius: 8px;
+          background: var(--bg-primary);
+          color: var(--text-primary);
+          font-size: 0.9rem;
+        }
+        .patient-profile input:focus,
+        .patient-profile select:focus {
+          outline: none;
+          border-color: var(--accent-primary);
+        }
+        .patient-profile-error {
+          color: var(--accent-error);
+          font-size: 0.85rem;
+          margin-bottom: 10px;
+        }
+        .patient-profile-save {
+          background: transparent;
+          border: 1px solid var(--accent-primary);
+          color: var(--accent-primary);
+          padding: 8px 16px;
+          border-radius: 16px;
+          font-weight: 600;
+          font-size: 0.85rem;
+          cursor: pointer;
+          transition: all 0.2s ease;
+        }
+        .patient-profile-save:hover:not(:disabled) {
+          background: var(--bg-overlay);
+        }
+        .patient-profile-save:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </form>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useCallback, useRef } from 'react';
+import { PatientProfileEditor } from './PatientProfileEditor';
+import { emptyProfile } from '../../shared/patientProfile.js';
+import type { PatientProfile } from '../../shared/patientProfile.js';
 
 type Props = {
-  onReady: () => void;
+  onReady: (recordId: string | null) => void;
   onDrugCount?: (n: number) => void;
 };
 
@@ -13,6 +16,8 @@ export function PdfUpload({ onReady, onDrugCount }: Props) {
   const [file, setFile] = useState<File | null>(null);
   const [status, setStatus] = useState<'idle' | 'uploading' | 'done' | 'error'>('idle');
   const [drugCount, setDrugCount] = useState(0);
+  const [recordId, setRecordId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<PatientProfile | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -63,13 +68,15 @@ export function PdfUpload({ onReady, onDrugCount }: Props) {
           return;
         }
         setStatus('done');
+        setRecordId(typeof data?.recordId === 'string' ? data.recordId : null);
+        setProfile(data?.profile ?? emptyProfile());
         const n = data?.drugCount ?? 0;
         setDrugCount(n);
         onDrugCount?.(n);
-        // Store patient drugs locally for client-side safety checks
+        // Store patient drugs for client-side safety checks (per tab, so parallel visits don't mix)
         try {
           const drugs = Array.isArray(data?.drugs) ? data.drugs : [];
-          localStorage.setItem('nexhacks.patientDrugs', JSON.stringify(drugs));
+          sessionStorage.setItem('nexhacks.patientDrugs', JSON.stringify(drugs));
         } catch {}
         // Print full extracted text contents to the console (doctor-side use case)
         if (typeof data?.text === 'string') {
@@ -126,12 +133,12 @@ export function PdfUpload({ onReady, onDrugCount }: Props) {
     <div className="pdf-upload">
       <div className="pdf-upload-header">
         <h2>1. Upload medical data (PDF)</h2>
-        <button className="pdf-upload-skip" onClick={onReady} type="button">
+        <button className="pdf-upload-skip" onClick={() => onReady(null)} type="button">
           Skip
         </button>
       </div>
       <p className="pdf-upload-hint">
-        We extract text and medication names to check for conflicts when the doctor prescribes during the call.
+        We extract medication names and patient details (age, allergies, conditions, kidney function) to check for conflicts when the doctor prescribes during the call.
       </p>
 
       <div
@@ -192,13 +199,30 @@ export function PdfUpload({ onReady, onDrugCount }: Props) {
         </div>
       )}
 
+      {status === 'idle' && !profile && (
+        <button className="pdf-upload-manual" type="button" onClick={() => setProfile(emptyProfile())}>
+          No PDF? Enter patient details manually
+        </button>
+      )}
+
+      {profile && status !== 'uploading' && (
+        <PatientProfileEditor
+          recordId={recordId}
+          profile={profile}
+          onSaved={(id, saved) => {
+            setRecordId(id);
+            setProfile(saved);
+          }}
+        />
+      )}
+
       <button
-        className={`pdf-upload-start ${status === 'done' ? 'ready' : ''}`}
-        disabled={status !== 'done'}
-        onClick={onReady}
+        className={`pdf-upload-start ${recordId ? 'ready' : ''}`}
+        disabled={!recordId}
+        onClick={() => onReady(recordId)}
       >
         <span>Start call</span>
-        {status === 'done' && <span className="pdf-upload-start-arrow">→</span>}
+        {recordId && <span className="pdf-upload-start-arrow">→</span>}
       </button>
 
       <style>{`
@@ -258,6 +282,16 @@ export function PdfUpload({ onReady, onDrugCount }: Props) {
         .pdf-upload-skip:active {
           transform: scale(0.95);
         }
+        .pdf-upload-manual {
+          display: block;
+          margin: 0 auto 16px auto;
+          background: transparent;
+          border: none;
+          color: var(--accent-primary);
+          font-size: 0.85rem;
+          text-decoration: underline;
+          cursor: pointer;
+        }
         .pdf-upload-hint {
           font-size: 0.9rem;
           color: var(--text-tertiary);
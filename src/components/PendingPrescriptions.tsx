@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { useSession, type MedicationChange, type PendingMedicationChange } from '../contexts/SessionContext';
+import type { MedicationIntent } from '../utils/intentClassifier';
+import { parseSig, FREQUENCY_OPTIONS, type ParsedSig } from '../utils/sigParser';
+import { drugLexicon, displayDrugName, AUTO_ACCEPT_SCORE } from '../utils/drugLexicon';
+import { lookupDrug } from '../../shared/drugLexicon.js';
+
+const INTENT_OPTIONS: Array<{ value: MedicationIntent; label: string }> = [
+  { value: 'prescribe', label: 'New' },
+  { value: 'dose_change', label: 'Dose change' },
+  { value: 'continue', label: 'Continue' },
+  { value: 'discontinue', label: 'Stop' },
+];
+
+type Draft = {
+  drug: string;
+  intent: MedicationIntent;
+  dose: string;
+  frequency: string; // SigFrequency code, '' for none
+};
+
+const draftFor = (item: PendingMedicationChange): Draft => ({
+  drug: item.drug,
+  intent: item.intent,
+  dose: item.sig?.strength !== undefined && item.sig.unit ? `${item.sig.strength} ${item.sig.unit}` : '',
+  frequency: item.sig?.frequency?.code ?? '',
+});
+
+/** Apply the doctor's dose/frequency edits on top of what was parsed from speech. */
+function editedSig(original: ParsedSig | undefined, draft: Draft): ParsedSig {
+  const sig: ParsedSig = { ...(original ?? { prn: false }) };
+  const dose = parseSig(draft.dose);
+  sig.strength = dose.strength;
+  sig.unit = dose.unit;
+  const known = FREQUENCY_OPTIONS.find((f) => f.code === draft.frequency);
+  sig.frequency = known ?? (draft.frequency ? original?.frequency : undefined);
+  return sig;
+}
+
+type Props = {
+  onConfirmed: (change: MedicationChange) => void;
+};
+
+/**
+ * Doctor-only review queue: every detected prescription waits here until it is
+ * confirmed (optionally after editing drug, dose and frequency) or rejected. Only
+ * confirmed items are broadcast and sent to the post-visit safety check.
+ */
+export function PendingPrescriptions({ onConfirmed }: Props) {
+  const session = useSession();
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+
+  const draftOf = (item: PendingMedicationChange) => drafts[item.id] ?? draftFor(item);
+
+  const updateDraft = (item: PendingMedicationChange, patch: Partial<Draft>) => {
+    setDrafts((prev) => ({ ...prev, [item.id]: { ...draftOf(item), ...patch } }));
+  };
+
+  const clearDraft = (id: string) => {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const confirm = (item: PendingMedicationChange) => {
+    const draft = draftOf(item);
+    const typed = draft.drug.trim() || item.drug;
+    // Map an edited name back to its generic when the lexicon knows it ("Advil" → "Ibuprofen")
+    const generic = lookupDrug(drugLexicon, typed);
+    const change = session.confirmMedicationChange(item.id, {
+      drug: generic ? displayDrugName(generic) : typed,
+      intent: draft.intent,
+      sig: draft.intent === 'discontinue' ? undefined : editedSig(item.sig, draft),
+    });
+    clearDraft(item.id);
+    if (change) onConfirmed(change);
+  };
+
+  const reject = (item: PendingMedicationChange) => {
+    session.rejectMedicationChange(item.id);
+    clearDraft(item.id);
+  };
+
+  if (session.pendingChanges.length === 0) return null;
+
+  return (
+    <div className="pending-rx">
+      <div className="pending-rx-title">To confirm ({session.pendingChanges.length})</div>
+      {session.pendingChanges.map((item) => {
+        const draft = draftOf(item);
+        return (
+          <div key={item.id} className="pending-rx-item" title={item.utterance}>
+            <div className="pending-rx-row">
+              <input
+                className="pending-rx-input pending-rx-drug"
+                value={draft.drug}
+                onChange={(e) => updateDraft(item, { drug: e.target.value })}
+                aria-label="Drug"
+              />
+              <select
+                className="pending-rx-input"
+                value={draft.intent}
+                onChange={(e) => updateDraft(item, { intent: e.target.value as MedicationIntent })}
+                aria-label="Action"
+              >
+                {INTENT_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+            {draft.intent !== 'discontinue' && (
+              <div className="pending-rx-row">
+                <input
+                  className="pending-rx-input"
+                  value={draft.dose}
+                  placeholder="Dose, e.g. 500 mg"
+                  onChange={(e) => updateDraft(item, { dose: e.target.value })}
+                  aria-label="Dose"
+                />
+                <select
+                  className="pending-rx-input"
+                  value={draft.frequency}
+                  onChange={(e) => updateDraft(item, { frequency: e.target.value })}
+                  aria-label="Frequency"
+                >
+                  <option value="">Frequency…</option>
+                  {item.sig?.frequency && !FREQUENCY_OPTIONS.some((f) => f.code === item.sig?.frequency?.code) && (
+                    <option value={item.sig.frequency.code}>{item.sig.frequency.text}</option>
+                  )}
+                  {FREQUENCY_OPTIONS.map((f) => (
+                    <option key={f.code} value={f.code}>{f.text}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="pending-rx-row">
+              {item.confidence < AUTO_ACCEPT_SCORE ? (
+                <span className="pending-rx-heard low">
+                  heard “{item.heard}” · {Math.round(item.confidence * 100)}% match
+                </span>
+              ) : (
+                <span className="pending-rx-heard">“{item.utterance.slice(0, 60)}”</span>
+              )}
+              <button type="button" className="pending-rx-btn confirm" onClick={() => confirm(item)}>
+                Confirm
+              </button>
+              <button type="button" className="pending-rx-btn" onClick={() => reject(item)}>
+                Reject
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      <style>{`
+        .pending-rx {
+          margin-top: 12px;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          max-height: 260px;
+          overflow-y: auto;
+        }
+        .pending-rx-title {
+          font-size: 11px;
+          font-weight: 600;
+          color: var(--text-secondary);
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+        }
+        .pending-rx-item {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          padding: 8px;
+          background: var(--bg-hover);
+          border: 1px solid var(--border-color);
+          border-left: 2px solid var(--accent-primary);
+          border-radius: 8px;
+        }
+        .pending-rx-row {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+        .pending-rx-input {
+          flex: 1;
+          min-width: 0;
+          background: var(--bg-overlay);
+          border: 1px solid var(--border-color);
+          border-radius: 6px;
+          padding: 4px 6px;
+          color: var(--text-primary);
+          font-size: 11px;
+        }
+        .pending-rx-input:focus {
+          outline: none;
+          border-color: var(--accent-primary);
+        }
+        .pending-rx-drug {
+          font-weight: 600;
+        }
+        .pending-rx-heard {
+          flex: 1;
+          font-size: 10px;
+          font-style: italic;
+          color: var(--text-tertiary);
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .pending-rx-heard.low {
+          color: var(--accent-error);
+        }
+        .pending-rx-btn {
+          background: var(--bg-overlay);
+          border: 1px solid var(--border-color);
+          color: var(--text-primary);
+          padding: 4px 10px;
+          border-radius: 8px;
+          cursor: pointer;
+          font-size: 11px;
+          font-weight: 500;
+          transition: all 0.2s ease;
+        }
+        .pending-rx-btn.confirm {
+          background: var(--accent-success);
+          border-color: var(--accent-success);
+          color: var(--bg-primary);
+        }
+        .pending-rx-btn:hover {
+          transform: scale(1.05);
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import type { MedicationIntent } from '../utils/intentClassifier';
 
 /**
  * Prescription history entry with timestamp and drug name
@@ -7,9 +8,17 @@ export type PrescriptionEntry = {
   id: string;
   drug: string;
   timestamp: number;
+  intent?: MedicationIntent;
   hasConflict?: boolean;
 };
 
+const INTENT_LABELS: Partial<Record<MedicationIntent, string>> = {
+  prescribe: 'New',
+  discontinue: 'Stopped',
+  continue: 'Continued',
+  dose_change: 'Dose change',
+};
+
 type Props = {
   prescriptions: PrescriptionEntry[];
   onDrugSelect?: (drug: string) => void;
@@ -113,7 +122,14 @@ export function PrescriptionHistory({ prescriptions, onDrugSelect, onClear, isOp
                           {entry.hasConflict ? '⚠' : '✓'}
                         </div>
                         <div className="prescription-history-entry-content">
-                          <div className="prescription-history-entry-drug">{entry.drug}</div>
+                          <div className="prescription-history-entry-drug">
+                            {entry.drug}
+                            {entry.intent && INTENT_LABELS[entry.intent] && (
+                              <span className={`prescription-history-entry-intent ${entry.intent}`}>
+                                {INTENT_LABELS[entry.intent]}
+                              </span>
+                            )}
+                          </div>
                           <div className="prescription-history-entry-time">{formatTime(entry.timestamp)}</div>
                         </div>
                       </button>
@@ -392,6 +408,20 @@ export function PrescriptionHistory({ prescriptions, onDrugSelect, onClear, isOp
           font-size: 0.8rem;
           color: var(--text-tertiary);
         }
+        .prescription-history-entry-intent {
+          margin-left: 8px;
+          padding: 1px 6px;
+          border-radius: 6px;
+          font-size: 0.7rem;
+          font-weight: 500;
+          color: var(--text-secondary);
+          background: var(--bg-hover);
+          border: 1px solid var(--border-color);
+        }
+        .prescription-history-entry-intent.discontinue {
+          color: var(--accent-error);
+          border-color: var(--accent-error);
+        }
         .prescription-history-overlay {
           position: fixed;
           top: 0;
@@ -1,160 +1,112 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { useLocalParticipant } from '@livekit/components-react';
 import { useSession } from '../contexts/SessionContext';
-
-const COMMON_DRUGS = [
-  'lisinopril', 'metoprolol', 'atorvastatin', 'omeprazole', 'metformin', 'sertraline', 'amlodipine', 'albuterol',
-  'levothyroxine', 'enalapril', 'hydrochlorothiazide', 'furosemide', 'simvastatin', 'amoxicillin', 'ibuprofen',
-  'acetaminophen', 'aspirin', 'warfarin', 'clopidogrel', 'losartan', 'valsartan', 'diltiazem', 'verapamil',
-  'propranolol', 'atenolol', 'bisoprolol', 'carvedilol', 'labetalol', 'pravastatin', 'rosuvastatin', 'fluoxetine',
-  'paroxetine', 'citalopram', 'escitalopram', 'venlafaxine', 'bupropion', 'duloxetine', 'tramadol', 'oxycodone',
-  'morphine', 'hydrocodone', 'codeine', 'gabapentin', 'pregabalin', 'amitriptyline', 'nortriptyline', 'doxepin',
-  'zolpidem', 'eszopiclone', 'zaleplon', 'lorazepam', 'alprazolam', 'diazepam', 'clonazepam', 'methotrexate',
-  'prednisone', 'dexamethasone', 'hydrocortisone', 'insulin', 'glipizide', 'glyburide', 'pioglitazone', 'sitagliptin',
-  'donepezil', 'memantine', 'levodopa', 'carbidopa', 'ropinirole', 'bromocriptine', 'tamsulosin', 'finasteride',
-  'sildenafil', 'tadalafil', 'ciprofloxacin', 'levofloxacin', 'azithromycin', 'doxycycline', 'tetracycline', 'cephalexin',
-  'penicillin', 'erythromycin', 'clarithromycin', 'metronidazole', 'nystatin', 'fluconazole', 'itraconazole', 'ketoconazole',
-  'acyclovir', 'valacyclovir', 'oseltamivir', 'zanamivir', 'amantadine', 'rimantadine', 'ritonavir', 'lopinavir',
-  'darunavir', 'atazanavir', 'efavirenz', 'rilpivirine', 'dolutegravir', 'bictegravir', 'cabotegravir', 'tenofovir',
-  'lamivudine', 'emtricitabine', 'abacavir', 'zidovudine', 'didanosine', 'stavudine', 'zalcitabine', 'nevirapine',
-  'delavirdine', 'maraviroc', 'enfuvirtide', 'ibalizumab', 'fostemsavir', 'letermovir', 'ganciclovir', 'valganciclovir',
-  'cidofovir', 'foscarnet', 'famciclovir', 'penciclovir', 'trifluridine', 'idoxuridine', 'podofilox', 'imiquimod',
-  'sinecatechins', 'podophyllin', 'cryotherapy', 'interferon', 'peginterferon', 'ribavirin', 'sofosbuvir', 'ledipasvir',
-  'velpatasvir', 'voxilaprevir', 'glecaprevir', 'pibrentasvir', 'simeprevir', 'boceprevir', 'telaprevir', 'danoprevir',
-  'asunaprevir', 'daclatasvir', 'faldaprevir', 'alisporivir', 'miravirsen', 'metavir', 'heplisav', 'engerix', 'recombivax', 'naproxen'
-];
-
-/**
- * Simple list-based drug detection. Looks for all known drug names in the transcript.
- */
-function extractDrugs(transcript: string): string[] {
-  if (!transcript || transcript.length < 3) return [];
-  const lower = transcript.toLowerCase();
-  const found: string[] = [];
-  
-  // Search for all known drug names in the transcript
-  for (const drug of COMMON_DRUGS) {
-    if (lower.includes(drug)) {
-      const capitalized = drug.charAt(0).toUpperCase() + drug.slice(1);
-      if (!found.includes(capitalized)) {
-        found.push(capitalized);
-      }
-    }
-  }
-  
-  return found;
-}
+import { useRoleContext } from '../contexts/RoleContext';
+import { createSttProvider, type SttProvider, type SttResult } from '../stt';
+import { detectDrugs, displayDrugName, toDrugEntities } from '../utils/drugLexicon';
+import { classifyIntent } from '../utils/intentClassifier';
 
 type Props = {
-  onPrescriptionDetected: (drug: string) => void;
+  onPrescriptionDetected: (drug: string, utterance: string, spokenAs: string, confidence: number) => void;
   disabled?: boolean;
   compact?: boolean;
 };
 
 /**
- * STT via Web Speech API. Listens to local microphone and detects drug names.
- * When detected, calls onPrescriptionDetected(drug). Runs alongside the LiveKit call.
+ * Speech-to-text through the deployment's STT provider (Web Speech API, server-side
+ * engine fed from the LiveKit mic track, or a replay script; see src/stt). Detects drug names from the
+ * shared lexicon (brand names and misspellings map to the generic). When detected, calls
+ * onPrescriptionDetected(drug, utterance, spokenAs, confidence) so the caller can parse dose
+ * and frequency from what was said. Misheard names ("lice in a pril") are matched phonetically
+ * and reported with a lower confidence. Runs alongside the LiveKit call.
  */
 export function PrescriptionSTT({ onPrescriptionDetected, disabled, compact = false }: Props) {
-  const [listening, setListening] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Listening starts automatically when the widget mounts
+  const [listening, setListening] = useState(!disabled);
+  const [sttError, setError] = useState<string | null>(null);
   const [lastTranscript, setLastTranscript] = useState('');
-  const recRef = useRef<{ start?: () => void; stop?: () => void } | null>(null);
+  const [provider] = useState<SttProvider>(() => createSttProvider());
   const lastDrugRef = useRef<string | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const scriptRef = useRef<string>(''); // Local ref to track complete script
-  const listeningRef = useRef(false);
-  listeningRef.current = listening;
   const session = useSession();
+  const { localParticipant, microphoneTrack } = useLocalParticipant();
+  const localRole = useRoleContext() ?? 'doctor';
+  const micTrack = microphoneTrack?.track?.mediaStreamTrack;
 
   const onResult = useCallback(
-    (e: { results?: { [i: number]: { [j: number]: { transcript?: string } } }; resultIndex?: number }) => {
-      const idx = e.resultIndex ?? 0;
-      const t = (e.results?.[idx]?.[0]?.transcript || '').trim();
+    (result: SttResult) => {
+      const t = result.text.trim();
       if (!t) return;
       setLastTranscript(t);
       
       // Update local script ref with line breaks
       scriptRef.current = scriptRef.current ? `${scriptRef.current}\n${t}` : t;
       
-      // Add to complete script in session context
-      session.addToScript(t);
+      const matches = detectDrugs(t);
+
+      // Add to the call transcript as this participant's segment
+      session.addTranscriptSegment({
+        speaker: localParticipant?.identity ?? 'local',
+        role: localRole,
+        text: t,
+        startTime: result.startTime,
+        endTime: result.endTime,
+        confidence: result.confidence,
+        entities: toDrugEntities(matches),
+      });
       
       // Console log the accumulated script
-      console.log('📝 Complete Script (Doctor):', scriptRef.current);
+      console.log('📝 Complete Script (local mic):', scriptRef.current);
       console.log('🎙️ Latest transcription:', t);
       
-      const drugs = extractDrugs(t);
-      
       // Process all detected drugs
-      for (const drug of drugs) {
-        // Debounce: avoid firing for the same drug within 8s
-        const key = drug.toLowerCase();
+      for (const { generic, matched, score } of matches) {
+        const drug = displayDrugName(generic);
+        // Debounce: avoid firing for the same drug and intent within 8s, so
+        // "start ibuprofen ... actually stop the ibuprofen" still reaches the doctor
+        const key = `${generic}:${classifyIntent(t, matched)}`;
         if (lastDrugRef.current === key) continue;
         lastDrugRef.current = key;
         if (debounceRef.current) clearTimeout(debounceRef.current);
         debounceRef.current = setTimeout(() => {
           lastDrugRef.current = null;
         }, 8000);
-        console.log('🔍 Medication detected:', drug, '| Full transcript:', t);
-        onPrescriptionDetected(drug);
+        console.log('🔍 Medication detected:', drug, matched !== generic ? `(heard "${matched}", score ${score})` : '', '| Full transcript:', t);
+        onPrescriptionDetected(drug, t, matched, score);
       }
     },
-    [onPrescriptionDetected, session]
+    [onPrescriptionDetected, session, localParticipant, localRole]
   );
 
+  // The provider outlives re-renders; always deliver results to the latest handler
+  const onResultRef = useRef(onResult);
   useEffect(() => {
-    const SR = (window as unknown as { SpeechRecognition?: new () => unknown; webkitSpeechRecognition?: new () => unknown }).SpeechRecognition
-      || (window as unknown as { webkitSpeechRecognition?: new () => unknown }).webkitSpeechRecognition;
-    if (!SR) {
-      setError('Speech recognition not supported (use Chrome)');
-      return;
-    }
-    const rec = new SR() as {
-      continuous?: boolean; interimResults?: boolean; lang?: string;
-      onresult: (e: { results?: { [i: number]: { [j: number]: { transcript?: string } } }; resultIndex?: number }) => void;
-      onerror: (e: { error?: string }) => void; onend: () => void; start?: () => void; stop?: () => void;
-    };
-    rec.continuous = true;
-    rec.interimResults = false;
-    rec.lang = 'en-US';
-    rec.onresult = onResult;
-    rec.onerror = (e) => {
-      if (e.error === 'not-allowed') setError('Microphone access denied');
-      else if (e.error !== 'aborted') setError(`STT: ${e.error}`);
-    };
-    rec.onend = () => {
-      if (listeningRef.current && !disabled) rec.start?.();
-    };
-    recRef.current = rec;
-    return () => {
-      try { rec.stop?.(); } catch { /* ignore */ }
-      recRef.current = null;
-      if (debounceRef.current) clearTimeout(debounceRef.current);
-    };
-  }, [onResult, disabled]);
+    onResultRef.current = onResult;
+  }, [onResult]);
 
-  useEffect(() => {
-    const rec = recRef.current;
-    if (!rec) return;
-    if (listening && !disabled) {
-      try { rec.start?.(); } catch { setError('Could not start microphone'); }
-    } else {
-      try { rec.stop?.(); } catch { /* ignore */ }
-    }
-  }, [listening, disabled]);
+  const supported = provider.isSupported();
+  const error = supported ? sttError : 'Speech recognition not supported (use Chrome)';
 
-  // Auto-start listening when component mounts
   useEffect(() => {
-    if (!disabled) {
-      setListening(true);
-    }
-  }, [disabled]);
+    if (!supported || !listening || disabled) return;
+    provider.start({
+      audioTrack: micTrack,
+      onResult: (t) => onResultRef.current(t),
+      onError: setError,
+    });
+    return () => provider.stop();
+  }, [provider, supported, listening, disabled, micTrack]);
+
+  useEffect(() => () => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+  }, []);
 
   return (
     <div className="stt-widget">
       <div className="stt-header">
         <span className={`stt-dot ${listening ? 'on' : ''}`} />
-        <span className="stt-label">Prescription listener</span>
+        <span className="stt-label" title={`Speech-to-text: ${provider.name}`}>Prescription listener</span>
         <button
           type="button"
           className="stt-btn"
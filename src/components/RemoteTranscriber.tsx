@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTracks } from '@livekit/components-react';
+import { Track } from 'livekit-client';
+import { useSession } from '../contexts/SessionContext';
+import { createTrackSttProvider, serverSttAvailable, type SttProvider } from '../stt';
+import { detectDrugs, displayDrugName, toDrugEntities, AUTO_ACCEPT_SCORE } from '../utils/drugLexicon';
+
+/**
+ * Transcribes every remote participant's microphone track (doctor's client only) so the
+ * visit transcript has both sides of the call. Local speech is handled by PrescriptionSTT.
+ * Needs a server-side STT engine; without one only the local mic is transcribed.
+ * Drugs the other side names ("I'm already on warfarin") are recorded as mentions, never
+ * as prescriptions.
+ */
+export function RemoteTranscriber() {
+  const session = useSession();
+  const [available, setAvailable] = useState(false);
+  const tracks = useTracks([Track.Source.Microphone], { onlySubscribed: true });
+  const providersRef = useRef(new Map<string, SttProvider>());
+
+  // Providers outlive re-renders; route their results through the latest session
+  const sessionRef = useRef(session);
+  useEffect(() => {
+    sessionRef.current = session;
+  }, [session]);
+
+  useEffect(() => {
+    let cancelled = false;
+    serverSttAvailable().then((ok) => {
+      if (cancelled) return;
+      if (!ok) console.log('ℹ️ Server STT not configured; remote participants will not be transcribed');
+      setAvailable(ok);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!available) return;
+    const providers = providersRef.current;
+    const remote = tracks.filter((ref) => !ref.participant.isLocal && ref.publication.track?.mediaStreamTrack);
+    const current = new Set(remote.map((ref) => ref.publication.trackSid));
+
+    for (const [sid, provider] of providers) {
+      if (!current.has(sid)) {
+        provider.stop();
+        providers.delete(sid);
+      }
+    }
+
+    for (const ref of remote) {
+      const sid = ref.publication.trackSid;
+      if (providers.has(sid)) continue;
+      const speaker = ref.participant.identity;
+      const role = ref.participant.attributes?.role === 'doctor' ? 'doctor' : 'patient';
+      const provider = createTrackSttProvider();
+      providers.set(sid, provider);
+      provider.start({
+        audioTrack: ref.publication.track!.mediaStreamTrack,
+        onResult: ({ text, startTime, endTime, confidence }) => {
+          const matches = detectDrugs(text);
+          sessionRef.current.addTranscriptSegment({
+            speaker,
+            role,
+            text,
+            startTime,
+            endTime,
+            confidence,
+            entities: toDrugEntities(matches),
+          });
+          for (const match of matches) {
+            if (match.score >= AUTO_ACCEPT_SCORE) sessionRef.current.addDrugMention(displayDrugName(match.generic));
+          }
+        },
+        onError: (message) => console.warn(`⚠️ Transcription of ${speaker} failed:`, message),
+      });
+    }
+  }, [tracks, available]);
+
+  // Stop everything when leaving the call
+  useEffect(() => {
+    const providers = providersRef.current;
+    return () => {
+      for (const provider of providers.values()) provider.stop();
+      providers.clear();
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,248 @@
+import { INTERACTION_SEVERITY_LABELS, isSevere } from '../../shared/interactions.js';
+import type { InteractionSeverity } from '../../shared/interactions.js';
+import type { UserRole } from '../hooks/useAuth';
+
+export type AllergyMatch = {
+  allergy: string;
+  drug: string;
+  reason: 'same_drug' | 'same_class' | 'cross_reactive';
+  severity: InteractionSeverity;
+  note: string;
+  source?: string;
+};
+
+export type DuplicateTherapy = {
+  id: string;
+  kind: 'ingredient' | 'class';
+  label: string; // Shared ingredient, or the class name ("statin")
+  drugs: string[];
+  prescribed: string[];
+  severity: InteractionSeverity;
+  note: string;
+};
+
+export type SafetyAlertItem = {
+  id: string;
+  drug: string;
+  pending?: boolean; // Doctor-only: the change has not been confirmed yet
+} & (
+  | { kind: 'allergy'; matches: AllergyMatch[] }
+  | { kind: 'duplicate'; duplicates: DuplicateTherapy[] }
+);
+
+type Props = {
+  alerts: SafetyAlertItem[];
+  role: UserRole;
+  onDismiss: (id: string) => void;
+};
+
+const REASONS: Record<AllergyMatch['reason'], string> = {
+  same_drug: 'same drug',
+  same_class: 'same class',
+  cross_reactive: 'possible cross-reactivity',
+};
+
+function AllergyDetails({ drug, matches, role }: { drug: string; matches: AllergyMatch[]; role: UserRole }) {
+  if (role !== 'doctor') {
+    return (
+      <>
+        <strong>Allergy reminder</strong>
+        <p>
+          Your records list an allergy to {matches.map((m) => m.allergy).join(', ')}. Your doctor has been alerted about{' '}
+          {drug}; feel free to mention any reactions you have had.
+        </p>
+      </>
+    );
+  }
+  return (
+    <>
+      <strong>Allergy alert: {drug}</strong>
+      {matches.map((match) => (
+        <div key={match.allergy} className="safety-alert-match">
+          <span className="safety-alert-severity">{INTERACTION_SEVERITY_LABELS[match.severity]}</span>
+          <span>
+            Documented allergy to <em>{match.allergy}</em> ({REASONS[match.reason]})
+          </span>
+          <p>{match.note}</p>
+          {match.source && <span className="safety-alert-source">{match.source}</span>}
+        </div>
+      ))}
+    </>
+  );
+}
+
+function DuplicateDetails({ drug, duplicates, role }: { drug: string; duplicates: DuplicateTherapy[]; role: UserRole }) {
+  if (role !== 'doctor') {
+    return (
+      <>
+        <strong>Medicine check</strong>
+        <p>
+          {drug} may overlap with a medicine you already take. Your doctor is reviewing which ones you should keep
+          taking.
+        </p>
+      </>
+    );
+  }
+  return (
+    <>
+      <strong>Duplicate therapy: {drug}</strong>
+      {duplicates.map((duplicate) => (
+        <div key={`${duplicate.id}:${duplicate.label}`} className="safety-alert-match">
+          <span className="safety-alert-severity">{INTERACTION_SEVERITY_LABELS[duplicate.severity]}</span>
+          <span>
+            {duplicate.kind === 'ingredient' ? (
+              <>
+                Same ingredient (<em>{duplicate.label}</em>): {duplicate.drugs.join(', ')}
+              </>
+            ) : (
+              <>
+                More than one {duplicate.label}: {duplicate.drugs.join(', ')}
+              </>
+            )}
+          </span>
+          <p>{duplicate.note}</p>
+        </div>
+      ))}
+    </>
+  );
+}
+
+/**
+ * In-call safety alerts: raised on the doctor's screen as soon as they mention
+ * a drug the patient is allergic to (or may cross-react with), or one that
+ * duplicates a medication the patient already takes, and relayed to the
+ * patient in plain language once the doctor confirms the change.
+ */
+export function SafetyAlert({ alerts, role, onDismiss }: Props) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="safety-alerts" role="alert">
+      {alerts.map((alert) => {
+        const worst = alert.kind === 'allergy' ? alert.matches[0]?.severity : alert.duplicates[0]?.severity;
+        return (
+          <div key={alert.id} className={`safety-alert ${isSevere(worst) ? 'severe' : 'caution'}`}>
+            <span className="safety-alert-icon">⚠</span>
+            <div className="safety-alert-content">
+              {alert.pending && <span className="safety-alert-pending">Awaiting your confirmation · only you see this</span>}
+              {alert.kind === 'allergy' ? (
+                <AllergyDetails drug={alert.drug} matches={alert.matches} role={role} />
+              ) : (
+                <DuplicateDetails drug={alert.drug} duplicates={alert.duplicates} role={role} />
+              )}
+            </div>
+            <button className="safety-alert-dismiss" onClick={() => onDismiss(alert.id)} aria-label="Dismiss safety alert">
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <style>{`
+        .safety-alerts {
+          position: fixed;
+          top: 80px;
+          left: 50%;
+          transform: translateX(-50%);
+          z-index: 1300;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+          width: min(480px, calc(100vw - 40px));
+          animation: safetyAlertSlideIn 0.25s ease-out;
+        }
+        @keyframes safetyAlertSlideIn {
+          from { opacity: 0; transform: translateX(-50%) translateY(-10px); }
+          to { opacity: 1; transform: translateX(-50%) translateY(0); }
+        }
+        .safety-alert {
+          display: flex;
+          gap: 12px;
+          align-items: flex-start;
+          padding: 14px 16px;
+          background: var(--bg-overlay);
+          backdrop-filter: blur(12px);
+          -webkit-backdrop-filter: blur(12px);
+          border: 1px solid var(--border-color);
+          border-radius: 16px;
+          color: var(--text-primary);
+          font-size: 14px;
+          box-shadow: 0 4px 16px rgba(0, 0, 0, 0.3);
+        }
+        .safety-alert.severe {
+          border-left: 4px solid var(--accent-error);
+          background: linear-gradient(90deg, rgba(255, 85, 85, 0.12) 0%, transparent 100%), var(--bg-overlay);
+        }
+        .safety-alert.caution {
+          border-left: 4px solid var(--accent-warning);
+          background: linear-gradient(90deg, rgba(255, 136, 0, 0.1) 0%, transparent 100%), var(--bg-overlay);
+        }
+        .safety-alert-icon {
+          font-size: 1.4rem;
+          line-height: 1;
+          flex-shrink: 0;
+        }
+        .safety-alert.severe .safety-alert-icon {
+          color: var(--accent-error);
+        }
+        .safety-alert.caution .safety-alert-icon {
+          color: var(--accent-warning);
+        }
+        .safety-alert-content {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+        .safety-alert-content strong {
+          font-size: 15px;
+        }
+        .safety-alert-content p {
+          margin: 2px 0 0 0;
+          font-size: 13px;
+          line-height: 1.45;
+          color: var(--text-secondary);
+        }
+        .safety-alert-match {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+        .safety-alert-severity {
+          font-size: 11px;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+        }
+        .safety-alert.severe .safety-alert-severity {
+          color: var(--accent-error);
+        }
+        .safety-alert.caution .safety-alert-severity {
+          color: var(--accent-warning);
+        }
+        .safety-alert-source {
+          font-size: 11px;
+          color: var(--text-tertiary);
+          font-style: italic;
+        }
+        .safety-alert-pending {
+          font-size: 11px;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          color: var(--text-tertiary);
+        }
+        .safety-alert-dismiss {
+          background: transparent;
+          border: none;
+          color: var(--text-secondary);
+          font-size: 20px;
+          line-height: 1;
+          cursor: pointer;
+          padding: 0 4px;
+        }
+        .safety-alert-dismiss:hover {
+          color: var(--text-primary);
+        }
+      `}</style>
+    </div>
+  );
+}
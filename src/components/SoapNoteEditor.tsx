@@ -0,0 +1,273 @@
+import { useState } from 'react';
+import { SOAP_SECTIONS, type SoapMedicationChange, type SoapNote, type SoapSection } from '../../shared/soapNote.js';
+
+const SECTION_LABELS: Record<SoapSection, string> = {
+  subjective: 'Subjective',
+  objective: 'Objective',
+  assessment: 'Assessment',
+  plan: 'Plan',
+};
+
+const INTENT_LABELS: Record<SoapMedicationChange['intent'], string> = {
+  prescribe: 'Start',
+  discontinue: 'Stop',
+  continue: 'Continue',
+  dose_change: 'Dose change',
+};
+
+type Props = {
+  sessionId: string;
+  transcript: string; // Timestamped "Doctor: …" / "Patient: …" lines
+  initialNote?: SoapNote;
+  onChange: (note: SoapNote) => void; // Called with every generated, edited or saved version
+};
+
+/**
+ * Doctor-facing SOAP note: drafted by the server (LLM or template), editable
+ * section by section, and saved with the visit. Medication changes come from the
+ * visit's confirmed prescriptions; the doctor can correct details or drop an entry.
+ */
+export function SoapNoteEditor({ sessionId, transcript, initialNote, onChange }: Props) {
+  const [note, setNote] = useState<SoapNote | null>(initialNote ?? null);
+  const [generating, setGenerating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: SoapNote) => {
+    setNote(next);
+    onChange(next);
+  };
+
+  const edit = (patch: Partial<SoapNote>) => {
+    if (note) update({ ...note, ...patch, edited: true, savedAt: undefined });
+  };
+
+  const editMedication = (idx: number, patch: Partial<SoapMedicationChange>) => {
+    if (!note) return;
+    edit({ medicationChanges: note.medicationChanges.map((m, i) => (i === idx ? { ...m, ...patch } : m)) });
+  };
+
+  const removeMedication = (idx: number) => {
+    if (!note) return;
+    edit({ medicationChanges: note.medicationChanges.filter((_, i) => i !== idx) });
+  };
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/visit-summary/${encodeURIComponent(sessionId)}/soap-note`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transcript }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Note generation failed (${res.status})`);
+      update(body.soapNote);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const save = async () => {
+    if (!note) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/visit-summary/${encodeURIComponent(sessionId)}/soap-note`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(note),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Save failed (${res.status})`);
+      update(body.soapNote);
+    } catch (err) {
+      setError(`Could not save: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="soap-note">
+      <div className="soap-toolbar">
+        <span className="soap-meta">
+          {note
+            ? `${note.source === 'llm' ? 'AI draft' : 'Template draft'}${note.edited ? ' · edited' : ''}${
+                note.savedAt ? ` · saved ${new Date(note.savedAt).toLocaleTimeString()}` : ' · not saved'
+              }`
+            : 'No note drafted yet.'}
+        </span>
+        <button className="transcript-btn" onClick={generate} disabled={generating || saving}>
+          {generating ? 'Drafting…' : note ? '🔄 Regenerate' : '📝 Draft SOAP note'}
+        </button>
+        {note && (
+          <button className="transcript-btn" onClick={save} disabled={generating || saving || !!note.savedAt}>
+            {saving ? 'Saving…' : note.savedAt ? '✓ Saved' : '💾 Save'}
+          </button>
+        )}
+      </div>
+      {error && <p className="summary-error">⚠️ {error}</p>}
+
+      {note && (
+        <>
+          {SOAP_SECTIONS.map((section) => (
+            <label key={section} className="soap-section">
+              <span className="soap-label">{SECTION_LABELS[section]}</span>
+              <textarea
+                value={note[section]}
+                onChange={(e) => edit({ [section]: e.target.value })}
+                rows={section === 'plan' ? 5 : 3}
+                disabled={generating}
+              />
+            </label>
+          ))}
+
+          <div className="soap-section">
+            <span className="soap-label">Medication changes</span>
+            {note.medicationChanges.length === 0 ? (
+              <p className="transcript-empty">No medication changes confirmed during the visit.</p>
+            ) : (
+              note.medicationChanges.map((m, idx) => (
+                <div key={`${m.drug}-${idx}`} className="soap-med">
+                  <span className={`soap-med-intent ${m.intent}`}>{INTENT_LABELS[m.intent]}</span>
+                  <span className="soap-med-drug">{m.drug}</span>
+                  {m.intent !== 'discontinue' && (
+                    <>
+                      <input
+                        value={m.dosage ?? ''}
+                        placeholder="Dose"
+                        onChange={(e) => editMedication(idx, { dosage: e.target.value })}
+                        aria-label={`${m.drug} dose`}
+                      />
+                      <input
+                        value={m.frequency ?? ''}
+                        placeholder="Frequency"
+                        onChange={(e) => editMedication(idx, { frequency: e.target.value })}
+                        aria-label={`${m.drug} frequency`}
+                      />
+                      <input
+                        value={m.duration ?? ''}
+                        placeholder="Duration"
+                        onChange={(e) => editMedication(idx, { duration: e.target.value })}
+                        aria-label={`${m.drug} duration`}
+                      />
+                    </>
+                  )}
+                  <button className="soap-med-remove" onClick={() => removeMedication(idx)} title="Remove from note">
+                    ✕
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+
+      <style>{`
+        .soap-note {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .soap-toolbar {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          flex-wrap: wrap;
+        }
+
+        .soap-meta {
+          flex: 1;
+          color: var(--text-tertiary);
+          font-size: 12px;
+        }
+
+        .soap-section {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .soap-label {
+          font-size: 13px;
+          font-weight: 600;
+          color: var(--text-secondary);
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+        }
+
+        .soap-section textarea,
+        .soap-med input {
+          background: var(--bg-primary);
+          border: 1px solid var(--border-color);
+          border-radius: 10px;
+          padding: 8px 10px;
+          color: var(--text-primary);
+          font: inherit;
+          line-height: 1.5;
+        }
+
+        .soap-section textarea {
+          width: 100%;
+          box-sizing: border-box;
+          resize: vertical;
+        }
+
+        .soap-section textarea:focus,
+        .soap-med input:focus {
+          outline: none;
+          border-color: var(--accent-primary);
+        }
+
+        .soap-med {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          flex-wrap: wrap;
+        }
+
+        .soap-med input {
+          flex: 1;
+          min-width: 90px;
+          font-size: 13px;
+          padding: 6px 8px;
+        }
+
+        .soap-med-intent {
+          font-size: 11px;
+          font-weight: 600;
+          padding: 2px 8px;
+          border-radius: 10px;
+          background: var(--bg-hover);
+          color: var(--accent-success);
+        }
+
+        .soap-med-intent.discontinue {
+          color: var(--accent-error);
+        }
+
+        .soap-med-drug {
+          font-weight: 600;
+          min-width: 100px;
+        }
+
+        .soap-med-remove {
+          background: none;
+          border: none;
+          color: var(--text-tertiary);
+          cursor: pointer;
+          font-size: 14px;
+        }
+
+        .soap-med-remove:hover {
+          color: var(--accent-error);
+        }
+      `}</style>
+    </div>
+  );
+}
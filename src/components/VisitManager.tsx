@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react';
 import { useRoomContext } from '@livekit/components-react';
 import { useSession } from '../contexts/SessionContext';
 import { useRoleContext } from '../contexts/RoleContext';
+import { useAppointmentContext, type AppointmentInfo } from '../contexts/AppointmentContext';
 
 /**
  * Manages visit session lifecycle:
@@ -12,6 +13,7 @@ export function VisitManager() {
   const room = useRoomContext();
   const session = useSession();
   const role = useRoleContext();
+  const appointment = useAppointmentContext();
 
   // Start visit when room connects (only once)
   const startedRef = useRef(false);
@@ -45,7 +47,7 @@ export function VisitManager() {
       
       if (visitData) {
         // Trigger post-visit safety check
-        triggerPostVisitSafetyCheck(visitData);
+        triggerPostVisitSafetyCheck(visitData, appointment);
       }
     };
 
@@ -53,12 +55,12 @@ export function VisitManager() {
     return () => {
       room.off('disconnected', handleDisconnected);
     };
-  }, [room, session]);
+  }, [room, session, appointment]);
 
   return null; // This component doesn't render anything
 }
 
-async function triggerPostVisitSafetyCheck(visitData: any) {
+async function triggerPostVisitSafetyCheck(visitData: any, appointment: AppointmentInfo) {
   try {
     
     const response = await fetch('/post-visit-safety-check', {
@@ -66,13 +68,17 @@ async function triggerPostVisitSafetyCheck(visitData: any) {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         sessionId: visitData.sessionId,
+        appointmentId: appointment.appointmentId,
+        recordId: appointment.recordId,
         prescriptions: visitData.prescriptions.map((p: any) => ({
           drug: p.drug,
           dosage: p.dosage,
           duration: p.duration,
+          sig: p.sig,
+          intent: p.intent,
         })),
+        discontinued: visitData.discontinuedDrugs || [],
         patientHistory: visitData.patientHistory || [],
-        role: visitData.role,
       }),
     });
 
@@ -92,6 +98,9 @@ async function triggerPostVisitSafetyCheck(visitData: any) {
       const transcriptData = {
         sessionId: visitData.sessionId,
         completeScript: visitData.completeScript || '',
+        transcript: visitData.transcript || [],
+        confusionEvents: visitData.confusionEvents || [],
+        medicationChanges: visitData.medicationChanges || [],
         prescriptions: visitData.prescriptions.map((p: any) => ({
           drug: p.drug,
           dosage: p.dosage,
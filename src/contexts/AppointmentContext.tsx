@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+
+export interface AppointmentInfo {
+  appointmentId: string | null;
+  recordId: string | null; // Uploaded patient record for this visit (null when the doctor skipped the upload)
+}
+
+export const AppointmentContext = createContext<AppointmentInfo>({ appointmentId: null, recordId: null });
+export const useAppointmentContext = () => useContext(AppointmentContext);
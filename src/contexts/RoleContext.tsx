@@ -1,5 +1,5 @@
 import { createContext, useContext } from 'react';
-import type { UserRole } from '../hooks/useRole';
+import type { UserRole } from '../hooks/useAuth';
 
 export const RoleContext = createContext<UserRole>(null);
 export const useRoleContext = () => useContext(RoleContext);
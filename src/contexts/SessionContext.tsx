@@ -1,5 +1,7 @@
-import { createContext, useContext, useState, useCallback } from 'react';
+import { createContext, useContext, useState, useCallback, useMemo } from 'react';
 import type { ReactNode } from 'react';
+import { formatDosage, formatDuration, type ParsedSig } from '../utils/sigParser';
+import type { MedicationIntent } from '../utils/intentClassifier';
 
 export interface ConfusionEvent {
   id: string;
@@ -10,6 +12,26 @@ export interface ConfusionEvent {
   drugContext?: string; // Drug mentioned around the time of confusion
 }
 
+/** Something recognised inside a transcript segment (currently drug names). */
+export interface TranscriptEntity {
+  type: 'drug';
+  value: string; // Canonical name, e.g. "Ibuprofen"
+  text: string; // Words as heard, e.g. "advil"
+  score: number; // Match confidence, 0..1
+}
+
+/** One utterance from one participant, from that participant's audio track. */
+export interface TranscriptSegment {
+  id: string;
+  speaker: string; // LiveKit participant identity
+  role: 'doctor' | 'patient';
+  text: string;
+  startTime: number;
+  endTime: number;
+  confidence?: number; // STT confidence, 0..1, when the provider reports it
+  entities: TranscriptEntity[];
+}
+
 export interface DrugMention {
   drug: string;
   timestamp: number;
@@ -19,10 +41,32 @@ export interface Prescription {
   drug: string;
   dosage?: string;
   duration?: string;
+  sig?: ParsedSig; // Structured fields parsed from the prescribing utterance
+  intent?: MedicationIntent; // prescribe, continue or dose_change
   timestamp: number;
   prescribedBy?: string; // Doctor identity
 }
 
+/** One classified medication instruction from the doctor (mentions and questions are not recorded here). */
+export interface MedicationChange {
+  drug: string;
+  intent: MedicationIntent;
+  utterance: string;
+  sig?: ParsedSig;
+  timestamp: number;
+  prescribedBy?: string;
+}
+
+/** A detected instruction waiting for the doctor to confirm, edit or reject it. */
+export interface PendingMedicationChange extends Omit<MedicationChange, 'timestamp'> {
+  id: string;
+  detectedAt: number;
+  heard: string; // Words the drug was matched from (e.g. "lice in a pril")
+  confidence: number; // Drug match score, 0..1
+}
+
+export type MedicationChangeEdits = Partial<Pick<MedicationChange, 'drug' | 'intent' | 'sig'>>;
+
 export interface VisitSession {
   sessionId: string;
   startTime: number;
@@ -30,10 +74,13 @@ export interface VisitSession {
   role: 'doctor' | 'patient';
   participantIdentity?: string; // LiveKit identity
   prescriptions: Prescription[];
+  medicationChanges: MedicationChange[];
+  discontinuedDrugs: string[];
   confusionEvents: ConfusionEvent[];
   drugMentions: DrugMention[];
   patientHistory?: string[]; // Drugs from PDF
-  completeScript?: string; // Full transcribed script for doctor
+  transcript: TranscriptSegment[];
+  completeScript?: string; // Transcript as "Doctor: …" / "Patient: …" lines
 }
 
 interface SessionState {
@@ -41,12 +88,20 @@ interface SessionState {
   confusionEvents: ConfusionEvent[];
   drugMentions: DrugMention[];
   prescriptions: Prescription[];
+  medicationChanges: MedicationChange[];
+  pendingChanges: PendingMedicationChange[];
+  discontinuedDrugs: string[]; // Lower-case names; excluded from conflict checks
   visitStartTime: number | null;
-  completeScript: string; // Complete transcribed script for doctor
+  transcript: TranscriptSegment[]; // Both sides of the call, time-ordered
+  completeScript: string; // Transcript rendered as "Doctor: …" / "Patient: …" lines
   addConfusionEvent: (event: Omit<ConfusionEvent, 'id' | 'timestamp'>) => void;
   addDrugMention: (drug: string) => void;
   addPrescription: (prescription: Omit<Prescription, 'timestamp'>) => void;
-  addToScript: (text: string) => void; // Add to complete script
+  addMedicationChange: (change: Omit<MedicationChange, 'timestamp'>) => void;
+  queueMedicationChange: (change: Omit<PendingMedicationChange, 'id' | 'detectedAt'>) => void;
+  confirmMedicationChange: (id: string, edits?: MedicationChangeEdits) => MedicationChange | null;
+  rejectMedicationChange: (id: string) => void;
+  addTranscriptSegment: (segment: Omit<TranscriptSegment, 'id'>) => void;
   getRecentConfusionEvents: (withinSeconds?: number) => ConfusionEvent[];
   getRecentDrugMentions: (withinSeconds?: number) => DrugMention[];
   linkConfusionToDrug: (confusionId: string, drug: string) => void;
@@ -62,10 +117,12 @@ export function SessionProvider({ children }: { children: ReactNode }) {
   const [confusionEvents, setConfusionEvents] = useState<ConfusionEvent[]>([]);
   const [drugMentions, setDrugMentions] = useState<DrugMention[]>([]);
   const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [medicationChanges, setMedicationChanges] = useState<MedicationChange[]>([]);
+  const [pendingChanges, setPendingChanges] = useState<PendingMedicationChange[]>([]);
   const [visitStartTime, setVisitStartTime] = useState<number | null>(null);
   const [role, setRole] = useState<'doctor' | 'patient' | null>(null);
   const [participantIdentity, setParticipantIdentity] = useState<string | undefined>(undefined);
-  const [completeScript, setCompleteScript] = useState<string>('');
+  const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
 
   const addConfusionEvent = useCallback((event: Omit<ConfusionEvent, 'id' | 'timestamp'>) => {
     const newEvent: ConfusionEvent = {
@@ -96,13 +153,23 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     setDrugMentions((prev) => [...prev, mention]);
   }, []);
 
-  const addToScript = useCallback((text: string) => {
-    setCompleteScript((prev) => {
-      const updated = prev ? `${prev}\n${text}` : text;
-      return updated;
+  /** Insert a segment in start-time order (remote tracks can deliver results later than local speech). */
+  const addTranscriptSegment = useCallback((segment: Omit<TranscriptSegment, 'id'>) => {
+    const newSegment: TranscriptSegment = {
+      ...segment,
+      id: `segment-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    };
+    setTranscript((prev) => {
+      const idx = prev.findIndex((s) => s.startTime > newSegment.startTime);
+      return idx < 0 ? [...prev, newSegment] : [...prev.slice(0, idx), newSegment, ...prev.slice(idx)];
     });
   }, []);
 
+  const completeScript = useMemo(
+    () => transcript.map((s) => `${s.role === 'doctor' ? 'Doctor' : 'Patient'}: ${s.text}`).join('\n'),
+    [transcript]
+  );
+
   const getRecentConfusionEvents = useCallback((withinSeconds = 30) => {
     const cutoff = Date.now() - withinSeconds * 1000;
     return confusionEvents.filter((e) => e.timestamp >= cutoff);
@@ -127,6 +194,79 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     setPrescriptions((prev) => [...prev, newPrescription]);
   }, []);
 
+  /**
+   * Record a classified instruction and apply it to the prescription list:
+   * prescribe / continue / dose_change replace any earlier entry for the drug,
+   * discontinue removes it.
+   */
+  const addMedicationChange = useCallback((change: Omit<MedicationChange, 'timestamp'>) => {
+    const newChange: MedicationChange = { ...change, timestamp: Date.now() };
+    setMedicationChanges((prev) => [...prev, newChange]);
+
+    const key = change.drug.toLowerCase();
+    setPrescriptions((prev) => {
+      const others = prev.filter((p) => p.drug.toLowerCase() !== key);
+      if (change.intent === 'discontinue') return others;
+      if (change.intent === 'question' || change.intent === 'mention') return prev;
+      const previous = prev.find((p) => p.drug.toLowerCase() === key);
+      // A bare "continue" keeps the dosing already captured for this drug
+      const sig = change.sig ?? previous?.sig;
+      return [
+        ...others,
+        {
+          drug: change.drug,
+          dosage: sig ? formatDosage(sig) : previous?.dosage,
+          duration: sig ? formatDuration(sig) : previous?.duration,
+          sig,
+          intent: change.intent,
+          prescribedBy: change.prescribedBy,
+          timestamp: newChange.timestamp,
+        },
+      ];
+    });
+  }, []);
+
+  /** Hold a detection for review. A repeat of the same drug and intent replaces the older entry. */
+  const queueMedicationChange = useCallback((change: Omit<PendingMedicationChange, 'id' | 'detectedAt'>) => {
+    const pending: PendingMedicationChange = {
+      ...change,
+      id: `pending-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      detectedAt: Date.now(),
+    };
+    const key = change.drug.toLowerCase();
+    setPendingChanges((prev) => [
+      ...prev.filter((p) => !(p.drug.toLowerCase() === key && p.intent === change.intent)),
+      pending,
+    ]);
+  }, []);
+
+  /** Move a pending item (with the doctor's edits) into the visit record. Returns the recorded change. */
+  const confirmMedicationChange = useCallback((id: string, edits: MedicationChangeEdits = {}) => {
+    const pending = pendingChanges.find((p) => p.id === id);
+    if (!pending) return null;
+    setPendingChanges((prev) => prev.filter((p) => p.id !== id));
+    const change: Omit<MedicationChange, 'timestamp'> = {
+      drug: edits.drug ?? pending.drug,
+      intent: edits.intent ?? pending.intent,
+      utterance: pending.utterance,
+      sig: 'sig' in edits ? edits.sig : pending.sig,
+      prescribedBy: pending.prescribedBy,
+    };
+    addMedicationChange(change);
+    return { ...change, timestamp: Date.now() };
+  }, [pendingChanges, addMedicationChange]);
+
+  const rejectMedicationChange = useCallback((id: string) => {
+    setPendingChanges((prev) => prev.filter((p) => p.id !== id));
+  }, []);
+
+  // A drug is discontinued when the latest instruction about it was to stop it
+  const discontinuedDrugs = useMemo(() => {
+    const latest = new Map<string, MedicationIntent>();
+    for (const c of medicationChanges) latest.set(c.drug.toLowerCase(), c.intent);
+    return [...latest].filter(([, intent]) => intent === 'discontinue').map(([drug]) => drug);
+  }, [medicationChanges]);
+
   const startVisit = useCallback((id: string, visitRole: 'doctor' | 'patient', identity?: string) => {
     setSessionId(id);
     setVisitStartTime(Date.now());
@@ -146,8 +286,11 @@ export function SessionProvider({ children }: { children: ReactNode }) {
       role,
       participantIdentity,
       prescriptions: [...prescriptions],
+      medicationChanges: [...medicationChanges],
+      discontinuedDrugs: [...discontinuedDrugs],
       confusionEvents: [...confusionEvents],
       drugMentions: [...drugMentions],
+      transcript: [...transcript],
       completeScript,
     };
 
@@ -157,12 +300,14 @@ export function SessionProvider({ children }: { children: ReactNode }) {
     setRole(null);
     setParticipantIdentity(undefined);
     setPrescriptions([]);
+    setMedicationChanges([]);
+    setPendingChanges([]); // Unconfirmed detections never become part of the record
     setConfusionEvents([]);
     setDrugMentions([]);
-    setCompleteScript('');
+    setTranscript([]);
 
     return visitData;
-  }, [sessionId, visitStartTime, role, participantIdentity, prescriptions, confusionEvents, drugMentions]);
+  }, [sessionId, visitStartTime, role, participantIdentity, prescriptions, medicationChanges, discontinuedDrugs, confusionEvents, drugMentions, transcript, completeScript]);
 
   const getVisitData = useCallback((): VisitSession | null => {
     if (!sessionId || !visitStartTime || !role) {
@@ -176,11 +321,14 @@ export function SessionProvider({ children }: { children: ReactNode }) {
       role,
       participantIdentity,
       prescriptions: [...prescriptions],
+      medicationChanges: [...medicationChanges],
+      discontinuedDrugs: [...discontinuedDrugs],
       confusionEvents: [...confusionEvents],
       drugMentions: [...drugMentions],
+      transcript: [...transcript],
       completeScript,
     };
-  }, [sessionId, visitStartTime, role, participantIdentity, prescriptions, confusionEvents, drugMentions, completeScript]);
+  }, [sessionId, visitStartTime, role, participantIdentity, prescriptions, medicationChanges, discontinuedDrugs, confusionEvents, drugMentions, transcript, completeScript]);
 
   return (
     <SessionContext.Provider
@@ -189,12 +337,20 @@ export function SessionProvider({ children }: { children: ReactNode }) {
         confusionEvents,
         drugMentions,
         prescriptions,
+        medicationChanges,
+        pendingChanges,
+        discontinuedDrugs,
         visitStartTime,
+        transcript,
         completeScript,
         addConfusionEvent,
         addDrugMention,
         addPrescription,
-        addToScript,
+        addMedicationChange,
+        queueMedicationChange,
+        confirmMedicationChange,
+        rejectMedicationChange,
+        addTranscriptSegment,
         getRecentConfusionEvents,
         getRecentDrugMentions,
         linkConfusionToDrug,
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export type UserRole = 'doctor' | 'patient' | null;
+
+export interface AuthUser {
+  role: 'doctor' | 'patient';
+  appointmentId: string | null; // Set for patients (the appointment their invite was for)
+  username?: string;
+}
+
+type AuthStatus = 'loading' | 'signed-out' | 'signed-in';
+
+/**
+ * Resolves who the current user is from the server session cookie.
+ * Patients arrive via a one-time invite link (?invite=<token>), which is
+ * redeemed here and then stripped from the URL. Clinicians sign in with login().
+ */
+export function useAuth() {
+  const [status, setStatus] = useState<AuthStatus>('loading');
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Invites are single-use: make sure StrictMode's double effect run only redeems once
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    (async () => {
+      const url = new URL(window.location.href);
+      const invite = url.searchParams.get('invite');
+      try {
+        if (invite) {
+          url.searchParams.delete('invite');
+          window.history.replaceState(null, '', url);
+          const res = await fetch('/api/auth/invite', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ token: invite }),
+          });
+          const data = await res.json();
+          if (res.ok) {
+            setUser({ role: 'patient', appointmentId: data.appointmentId });
+            setStatus('signed-in');
+            return;
+          }
+          setError(data?.error || 'This invite link is not valid');
+        }
+
+        const res = await fetch('/api/auth/me');
+        if (res.ok) {
+          const data = await res.json();
+          setUser({ role: data.role, appointmentId: data.appointmentId ?? null });
+          setStatus('signed-in');
+        } else {
+          setStatus('signed-out');
+        }
+      } catch (e) {
+        console.error('Failed to load session', e);
+        setStatus('signed-out');
+      }
+    })();
+  }, []);
+
+  const login = useCallback(async (username: string, password: string): Promise<boolean> => {
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || 'Login failed');
+        return false;
+      }
+      setUser({ role: 'doctor', appointmentId: null, username: data.username });
+      setStatus('signed-in');
+      return true;
+    } catch {
+      setError('Login failed. Start the backend with: node server.js');
+      return false;
+    }
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      setUser(null);
+      setStatus('signed-out');
+    }
+  }, []);
+
+  return { status, user, error, login, logout };
+}
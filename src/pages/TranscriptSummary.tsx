@@ -1,8 +1,14 @@
-import { useState } from 'react';
+import { useEffect, useState, type ReactNode } from 'react';
+import type { ConfusionEvent, MedicationChange, TranscriptSegment } from '../contexts/SessionContext';
+import { SoapNoteEditor } from '../components/SoapNoteEditor';
+import type { SoapNote } from '../../shared/soapNote.js';
 
 interface TranscriptData {
   sessionId: string;
   completeScript: string;
+  transcript?: TranscriptSegment[]; // Absent for visits stored before segments existed
+  confusionEvents?: ConfusionEvent[];
+  medicationChanges?: MedicationChange[];
   prescriptions: Array<{
     drug: string;
     dosage?: string;
@@ -10,6 +16,99 @@ interface TranscriptData {
   }>;
   startTime: number;
   endTime: number;
+  summary?: StoredSummary; // Cached so reloading the page does not summarize again
+  soapNote?: SoapNote;
+}
+
+interface StoredSummary {
+  text: string;
+  generatedAt: number;
+  edited: boolean;
+  savedAt?: number; // Set once the doctor saved it to the visit record
+}
+
+/** Segments the recogniser was less sure of than this are flagged for review. */
+const LOW_CONFIDENCE = 0.6;
+
+const INTENT_LABELS: Record<string, string> = {
+  prescribe: 'Prescribed',
+  discontinue: 'Stopped',
+  continue: 'Continued',
+  dose_change: 'Dose changed',
+};
+
+/** A confusion or medication-change marker shown between transcript segments. */
+type TimelineEvent = {
+  id: string;
+  kind: 'confusion' | 'medication';
+  timestamp: number;
+  label: string;
+};
+
+/** Offset from the start of the visit as m:ss. */
+function formatOffset(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function speakerLabel(segment: TranscriptSegment): string {
+  return segment.role === 'doctor' ? 'Doctor' : 'Patient';
+}
+
+function timelineEvents(data: TranscriptData): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  for (const c of data.confusionEvents ?? []) {
+    if (c.state !== 'CONFUSION') continue;
+    events.push({
+      id: c.id,
+      kind: 'confusion',
+      timestamp: c.timestamp,
+      label: `Patient confused${c.drugContext ? ` (${c.drugContext})` : ''}`,
+    });
+  }
+  (data.medicationChanges ?? []).forEach((m, idx) => {
+    events.push({
+      id: `medication-${idx}`,
+      kind: 'medication',
+      timestamp: m.timestamp,
+      label: `${INTENT_LABELS[m.intent] ?? m.intent}: ${m.drug}`,
+    });
+  });
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** The segment closest in time to `timestamp`, for jumping from an event to what was being said. */
+function nearestSegment(segments: TranscriptSegment[], timestamp: number): TranscriptSegment | null {
+  let best: TranscriptSegment | null = null;
+  for (const s of segments) {
+    if (!best || Math.abs(s.startTime - timestamp) < Math.abs(best.startTime - timestamp)) best = s;
+  }
+  return best;
+}
+
+/** Ask the server to summarize the transcript; throws with the server's message on failure. */
+async function requestSummary(transcript: string): Promise<string> {
+  const res = await fetch('/summarize-transcript', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ transcript }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error || `Summarization failed (${res.status})`);
+  if (typeof body.summary !== 'string' || !body.summary.trim()) throw new Error('Summarization returned no text');
+  return body.summary;
+}
+
+/** Keep summaries and notes with the visit's stored transcript. */
+function cacheWithVisit(sessionId: string, patch: Pick<TranscriptData, 'summary'> | Pick<TranscriptData, 'soapNote'>) {
+  const key = `transcript-${sessionId}`;
+  try {
+    const stored = sessionStorage.getItem(key);
+    if (!stored) return;
+    sessionStorage.setItem(key, JSON.stringify({ ...JSON.parse(stored), ...patch }));
+  } catch (e) {
+    console.warn('Failed to cache visit data:', e);
+  }
 }
 
 export function TranscriptSummary() {
@@ -36,19 +135,106 @@ export function TranscriptSummary() {
     return null;
   })();
 
-  const data = initialData;
+  const [data] = useState(initialData);
   const loading = false;
   const error: string | null = !sessionId ? 'No session ID provided' : (initialData ? null : 'Transcript not found in session');
   const [copied, setCopied] = useState(false);
-  const summary = 'SUMMARY GOES HERE';
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const [summary, setSummary] = useState<StoredSummary | null>(initialData?.summary ?? null);
+  // Each request bumps the counter; summarizing until the effect has finished the latest one
+  const [summaryRequest, setSummaryRequest] = useState(initialData && !initialData.summary ? 1 : 0);
+  const [completedRequest, setCompletedRequest] = useState(0);
+  const summarizing = summaryRequest !== completedRequest;
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<string | null>(null); // Non-null while editing
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const segments = data?.transcript ?? [];
+  const events = data ? timelineEvents(data) : [];
+
+  // Timestamped lines when segments exist; older visits only have the flat script
+  const transcriptText = data
+    ? segments.length > 0
+      ? segments.map((s) => `[${formatOffset(s.startTime - data.startTime)}] ${speakerLabel(s)}: ${s.text}`).join('\n')
+      : data.completeScript
+    : '';
+
+  const hasTranscript = transcriptText.trim().length > 0;
+
+  const updateSummary = (next: StoredSummary) => {
+    setSummary(next);
+    if (sessionId) cacheWithVisit(sessionId, { summary: next });
+  };
+
+  // Summarize on first load (unless cached) and whenever the doctor asks to regenerate
+  useEffect(() => {
+    if (summaryRequest === 0) return;
+    let cancelled = false;
+    const run = hasTranscript ? requestSummary(transcriptText) : Promise.reject(new Error('Nothing was transcribed in this visit'));
+    run
+      .then((text) => {
+        if (cancelled) return;
+        const next = { text, generatedAt: Date.now(), edited: false };
+        setSummary(next);
+        if (sessionId) cacheWithVisit(sessionId, { summary: next });
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setSummaryError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setCompletedRequest(summaryRequest);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [summaryRequest, hasTranscript, transcriptText, sessionId]);
+
+  const regenerate = () => {
+    setSummaryError(null);
+    setDraft(null);
+    setSummaryRequest((n) => n + 1);
+  };
 
-  // No effects needed; summary and data are derived client-side
+  const applyEdit = () => {
+    if (!summary || draft === null) return;
+    const text = draft.trim();
+    if (text && text !== summary.text) {
+      updateSummary({ ...summary, text, edited: true, savedAt: undefined });
+    }
+    setDraft(null);
+  };
+
+  const saveSummary = async () => {
+    if (!data || !summary) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const res = await fetch(`/visit-summary/${encodeURIComponent(data.sessionId)}/transcript-summary`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(summary),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || `Save failed (${res.status})`);
+      updateSummary({ ...summary, savedAt: body.transcriptSummary?.savedAt ?? Date.now() });
+    } catch (err) {
+      setSaveError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
 
-  // Summary is hard-coded; no backend summarization
+  const jumpTo = (event: TimelineEvent) => {
+    const segment = nearestSegment(segments, event.timestamp);
+    if (!segment) return;
+    setHighlighted(segment.id);
+    document.getElementById(segment.id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
 
   const copyToClipboard = () => {
-    if (data?.completeScript) {
-      navigator.clipboard.writeText(data.completeScript);
+    if (transcriptText) {
+      navigator.clipboard.writeText(transcriptText);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
@@ -62,7 +248,7 @@ Date: ${new Date(data.startTime).toLocaleString()}
 Duration: ${Math.floor((data.endTime - data.startTime) / 1000)} seconds
 
 TRANSCRIPT:
-${data.completeScript}
+${transcriptText}
 
 PRESCRIBED MEDICATIONS:
 ${data.prescriptions.map(p => `- ${p.drug}${p.dosage ? ` (${p.dosage})` : ''}`).join('\n')}`;
@@ -116,10 +302,66 @@ ${data.prescriptions.map(p => `- ${p.drug}${p.dosage ? ` (${p.dosage})` : ''}`).
 
         {/* Summary Section */}
         <section className="transcript-section">
-          <h2>📊 AI Summary</h2>
-          <div className="summary-text">
-            <p>{summary}</p>
+          <div className="transcript-header-controls">
+            <h2>📊 AI Summary</h2>
+            <div className="transcript-actions">
+              {summary && draft === null && (
+                <button className="transcript-btn" onClick={() => setDraft(summary.text)} disabled={summarizing}>
+                  ✏️ Edit
+                </button>
+              )}
+              <button className="transcript-btn" onClick={regenerate} disabled={summarizing || !hasTranscript || draft !== null}>
+                🔄 Regenerate
+              </button>
+              <button
+                className="transcript-btn"
+                onClick={saveSummary}
+                disabled={!summary || summarizing || saving || draft !== null || !!summary.savedAt}
+              >
+                {saving ? 'Saving…' : summary?.savedAt ? '✓ Saved' : '💾 Save'}
+              </button>
+            </div>
           </div>
+          {summarizing ? (
+            <div className="summary-text summary-loading">
+              <div className="loading-spinner small"></div>
+              <p>Summarizing the visit…</p>
+            </div>
+          ) : draft !== null ? (
+            <div className="summary-edit">
+              <textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={10} aria-label="Summary" />
+              <div className="transcript-actions">
+                <button className="transcript-btn" onClick={() => setDraft(null)}>Cancel</button>
+                <button className="transcript-btn" onClick={applyEdit} disabled={!draft.trim()}>Done</button>
+              </div>
+            </div>
+          ) : summary ? (
+            <div className="summary-text">
+              <p>{summary.text}</p>
+            </div>
+          ) : (
+            <div className="summary-text">
+              <p className="transcript-empty">No summary yet.</p>
+            </div>
+          )}
+          {summaryError && <p className="summary-error">⚠️ {summaryError}</p>}
+          {saveError && <p className="summary-error">⚠️ Could not save: {saveError}</p>}
+          {summary && !summarizing && (
+            <p className="summary-meta">
+              {summary.edited ? 'Edited by doctor' : 'Generated'} · {new Date(summary.generatedAt).toLocaleTimeString()}
+              {summary.savedAt ? ` · saved ${new Date(summary.savedAt).toLocaleTimeString()}` : ' · not saved'}
+            </p>
+          )}
+        </section>
+
+        <section className="transcript-section">
+          <h2>📋 SOAP Note</h2>
+          <SoapNoteEditor
+            sessionId={data.sessionId}
+            transcript={transcriptText}
+            initialNote={data.soapNote}
+            onChange={(soapNote) => cacheWithVisit(data.sessionId, { soapNote })}
+          />
         </section>
 
         <section className="transcript-section">
@@ -134,13 +376,87 @@ ${data.prescriptions.map(p => `- ${p.drug}${p.dosage ? ` (${p.dosage})` : ''}`).
               </button>
             </div>
           </div>
-          <div className="transcript-text">
-            {data.completeScript && data.completeScript.length > 0 ? (
-              <p>{data.completeScript}</p>
-            ) : (
-              <p className="transcript-empty">No transcript recorded for this session.</p>
-            )}
-          </div>
+          {events.length > 0 && segments.length > 0 && (
+            <div className="transcript-events">
+              {events.map((event) => (
+                <button
+                  key={event.id}
+                  className={`transcript-event-chip ${event.kind}`}
+                  onClick={() => jumpTo(event)}
+                  title="Jump to this point in the transcript"
+                >
+                  {formatOffset(event.timestamp - data.startTime)} · {event.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {segments.length > 0 ? (
+            <div className="transcript-timeline">
+              {(() => {
+                // Interleave event markers before the first segment that starts after them
+                const rows: ReactNode[] = [];
+                let next = 0;
+                for (const segment of segments) {
+                  while (next < events.length && events[next].timestamp <= segment.startTime) {
+                    const event = events[next++];
+                    rows.push(
+                      <div key={event.id} className={`timeline-marker ${event.kind}`}>
+                        {formatOffset(event.timestamp - data.startTime)} · {event.label}
+                      </div>
+                    );
+                  }
+                  const lowConfidence = segment.confidence !== undefined && segment.confidence < LOW_CONFIDENCE;
+                  rows.push(
+                    <div
+                      key={segment.id}
+                      id={segment.id}
+                      className={`timeline-segment ${segment.role}${highlighted === segment.id ? ' highlighted' : ''}`}
+                    >
+                      <div className="timeline-meta">
+                        <span className="timeline-time">{formatOffset(segment.startTime - data.startTime)}</span>
+                        <span className="timeline-speaker">{speakerLabel(segment)}</span>
+                        {lowConfidence && (
+                          <span className="timeline-low" title={`Speech recognition confidence ${Math.round(segment.confidence! * 100)}%`}>
+                            low confidence
+                          </span>
+                        )}
+                      </div>
+                      <p className="timeline-text">{segment.text}</p>
+                      {segment.entities.length > 0 && (
+                        <div className="timeline-entities">
+                          {segment.entities.map((entity, idx) => (
+                            <span
+                              key={idx}
+                              className="timeline-entity"
+                              title={entity.text.toLowerCase() !== entity.value.toLowerCase() ? `heard “${entity.text}”` : undefined}
+                            >
+                              💊 {entity.value}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                }
+                for (const event of events.slice(next)) {
+                  rows.push(
+                    <div key={event.id} className={`timeline-marker ${event.kind}`}>
+                      {formatOffset(event.timestamp - data.startTime)} · {event.label}
+                    </div>
+                  );
+                }
+                return rows;
+              })()}
+            </div>
+          ) : (
+            <div className="transcript-text">
+              {data.completeScript && data.completeScript.length > 0 ? (
+                <p>{data.completeScript}</p>
+              ) : (
+                <p className="transcript-empty">No transcript recorded for this session.</p>
+              )}
+            </div>
+          )}
         </section>
 
         {data.prescriptions.length > 0 && (
@@ -264,6 +580,123 @@ ${data.prescriptions.map(p => `- ${p.drug}${p.dosage ? ` (${p.dosage})` : ''}`).
           margin: 0;
         }
 
+        .transcript-events {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          margin-bottom: 10px;
+        }
+
+        .transcript-event-chip {
+          padding: 4px 10px;
+          border-radius: 12px;
+          border: 1px solid var(--border-color);
+          background: var(--bg-hover);
+          color: var(--text-secondary);
+          font-size: 12px;
+          cursor: pointer;
+        }
+
+        .transcript-event-chip.confusion {
+          border-color: var(--accent-error);
+        }
+
+        .transcript-event-chip.medication {
+          border-color: var(--accent-success);
+        }
+
+        .transcript-timeline {
+          background: var(--bg-primary);
+          border: 1px solid var(--border-color);
+          border-radius: 12px;
+          padding: 12px;
+          max-height: 400px;
+          overflow-y: auto;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .timeline-segment {
+          padding: 8px 10px;
+          border-left: 3px solid var(--border-color);
+          border-radius: 8px;
+          transition: background 0.3s ease;
+        }
+
+        .timeline-segment.doctor {
+          border-left-color: var(--accent-primary);
+        }
+
+        .timeline-segment.highlighted {
+          background: var(--bg-hover);
+        }
+
+        .timeline-meta {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-size: 11px;
+          color: var(--text-tertiary);
+          margin-bottom: 2px;
+        }
+
+        .timeline-time {
+          font-variant-numeric: tabular-nums;
+        }
+
+        .timeline-speaker {
+          font-weight: 600;
+          color: var(--text-secondary);
+        }
+
+        .timeline-low {
+          color: var(--accent-error);
+          font-style: italic;
+        }
+
+        .timeline-text {
+          margin: 0;
+          line-height: 1.6;
+          color: var(--text-primary);
+          white-space: pre-wrap;
+          word-wrap: break-word;
+        }
+
+        .timeline-entities {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin-top: 4px;
+        }
+
+        .timeline-entity {
+          font-size: 11px;
+          padding: 2px 8px;
+          border-radius: 10px;
+          background: var(--bg-hover);
+          color: var(--text-secondary);
+        }
+
+        .timeline-marker {
+          font-size: 11px;
+          text-align: center;
+          padding: 4px;
+          border-radius: 8px;
+          color: var(--text-secondary);
+          border: 1px dashed var(--border-color);
+        }
+
+        .timeline-marker.confusion {
+          color: var(--accent-error);
+          border-color: var(--accent-error);
+        }
+
+        .timeline-marker.medication {
+          color: var(--accent-success);
+          border-color: var(--accent-success);
+        }
+
         .transcript-empty {
           color: var(--text-tertiary);
           font-style: italic;
@@ -350,6 +783,65 @@ ${data.prescriptions.map(p => `- ${p.drug}${p.dosage ? ` (${p.dosage})` : ''}`).
         .summary-text p {
           margin: 0;
           color: var(--text-primary);
+          white-space: pre-wrap;
+        }
+
+        .summary-loading {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+        }
+
+        .loading-spinner.small {
+          width: 18px;
+          height: 18px;
+          border-width: 3px;
+          margin: 0;
+        }
+
+        .summary-edit {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .summary-edit textarea {
+          width: 100%;
+          box-sizing: border-box;
+          background: var(--bg-primary);
+          border: 1px solid var(--border-color);
+          border-radius: 12px;
+          padding: 12px;
+          color: var(--text-primary);
+          font: inherit;
+          line-height: 1.6;
+          resize: vertical;
+        }
+
+        .summary-edit textarea:focus {
+          outline: none;
+          border-color: var(--accent-primary);
+        }
+
+        .summary-edit .transcript-actions {
+          justify-content: flex-end;
+        }
+
+        .summary-error {
+          margin: 8px 0 0;
+          color: var(--accent-error);
+          font-size: 13px;
+        }
+
+        .summary-meta {
+          margin: 6px 0 0;
+          color: var(--text-tertiary);
+          font-size: 12px;
+        }
+
+        .transcript-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
         }
 
         .transcript-loading,
@@ -1,4 +1,7 @@
 import { useEffect, useState } from 'react';
+import type { ParsedSig } from '../utils/sigParser';
+import { compareInteractions, INTERACTION_SEVERITY_LABELS } from '../../shared/interactions.js';
+import type { Interaction } from '../../shared/interactions.js';
 
 interface VisitSummaryData {
   sessionId: string;
@@ -6,6 +9,7 @@ interface VisitSummaryData {
     drug: string;
     dosage?: string;
     duration?: string;
+    sig?: ParsedSig;
   }>;
   patientFollowUp: string;
   safetyCheck: {
@@ -14,11 +18,11 @@ interface VisitSummaryData {
       severity: string;
       description: string;
       drugs: string[];
+      ruleId?: string;
+      clinicianNote?: string;
+      patientMessage?: string;
     }>;
-    interactions: Array<{
-      drug: string;
-      interaction: string;
-    }>;
+    interactions: Interaction[];
   };
   clinicianNote?: string;
 }
@@ -111,13 +115,18 @@ export function VisitSummary({ sessionId }: VisitSummaryProps) {
                       <strong>Duration:</strong> {prescription.duration}
                     </p>
                   )}
+                  {prescription.sig?.refills !== undefined && (
+                    <p className="prescription-detail">
+                      <strong>Refills:</strong> {prescription.sig.refills}
+                    </p>
+                  )}
                 </div>
               ))}
             </div>
           )}
         </section>
 
-        {data.safetyCheck.risks.length > 0 && (
+        {(data.safetyCheck.risks.length > 0 || data.safetyCheck.interactions.length > 0) && (
           <section className="visit-summary-section visit-summary-risks">
             <h2>⚠️ Important Information</h2>
             {data.safetyCheck.risks.map((risk, idx) => (
@@ -126,6 +135,14 @@ export function VisitSummary({ sessionId }: VisitSummaryProps) {
                 <p className="risk-drugs">Medications: {risk.drugs.join(', ')}</p>
               </div>
             ))}
+            {[...data.safetyCheck.interactions].sort(compareInteractions).map((interaction) => (
+              <div key={interaction.drugs.join('+')} className="visit-summary-risk">
+                <p className="risk-description">
+                  {INTERACTION_SEVERITY_LABELS[interaction.severity]} interaction: {interaction.drugs.join(' + ')}. {interaction.mechanism}
+                </p>
+                <p className="risk-drugs">{interaction.management}</p>
+              </div>
+            ))}
           </section>
         )}
 
@@ -0,0 +1,76 @@
+import type { SttProvider, SttStartOptions } from './types';
+
+type Recognition = {
+  continuous?: boolean;
+  interimResults?: boolean;
+  lang?: string;
+  onresult: ((e: { results?: { [i: number]: { [j: number]: { transcript?: string; confidence?: number } } }; resultIndex?: number }) => void) | null;
+  onerror: ((e: { error?: string }) => void) | null;
+  onspeechstart: (() => void) | null;
+  onend: (() => void) | null;
+  start?: () => void;
+  stop?: () => void;
+};
+
+const getRecognitionClass = () =>
+  (window as unknown as { SpeechRecognition?: new () => Recognition }).SpeechRecognition ||
+  (window as unknown as { webkitSpeechRecognition?: new () => Recognition }).webkitSpeechRecognition;
+
+/** Web Speech API (Chrome/Edge/Safari). Listens to the default microphone, not a specific track. */
+export function createBrowserProvider(lang = 'en-US'): SttProvider {
+  let rec: Recognition | null = null;
+  let active = false;
+  let utteranceStart = Date.now();
+
+  return {
+    name: 'browser',
+    isSupported: () => !!getRecognitionClass(),
+
+    async start({ onResult, onError }: SttStartOptions) {
+      const SR = getRecognitionClass();
+      if (!SR) {
+        onError('Speech recognition not supported (use Chrome)');
+        return;
+      }
+      if (!rec) {
+        rec = new SR();
+        rec.continuous = true;
+        rec.interimResults = false;
+        rec.lang = lang;
+      }
+      // Web Speech gives no timings; an utterance runs from speech start (or the previous result) to now
+      rec.onspeechstart = () => {
+        utteranceStart = Date.now();
+      };
+      rec.onresult = (e) => {
+        const idx = e.resultIndex ?? 0;
+        const alternative = e.results?.[idx]?.[0];
+        const t = (alternative?.transcript || '').trim();
+        const endTime = Date.now();
+        // Chrome reports 0 when it has no estimate
+        if (t) onResult({ text: t, startTime: utteranceStart, endTime, confidence: alternative?.confidence || undefined });
+        utteranceStart = endTime;
+      };
+      rec.onerror = (e) => {
+        if (e.error === 'not-allowed') onError('Microphone access denied');
+        else if (e.error !== 'aborted' && e.error !== 'no-speech') onError(`STT: ${e.error}`);
+      };
+      // Chrome ends continuous recognition after a while; restart until stopped
+      rec.onend = () => {
+        if (active) rec?.start?.();
+      };
+      active = true;
+      utteranceStart = Date.now();
+      try {
+        rec.start?.();
+      } catch {
+        onError('Could not start microphone');
+      }
+    },
+
+    stop() {
+      active = false;
+      try { rec?.stop?.(); } catch { /* ignore */ }
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import type { SttProvider } from './types';
+import { createBrowserProvider } from './browserProvider';
+import { createServerProvider } from './serverProvider';
+import { createReplayProvider } from './replayProvider';
+
+export type { SttProvider, SttStartOptions, SttResult } from './types';
+export { parseReplayScript } from './replayProvider';
+
+export type SttProviderKind = 'auto' | 'browser' | 'server' | 'replay';
+
+/**
+ * Pick the speech-to-text backend for this deployment (VITE_STT_PROVIDER):
+ *   auto     browser Web Speech when available, otherwise the server (default)
+ *   browser  Web Speech API only
+ *   server   stream the mic track to /api/stt (Vosk / whisper.cpp on the backend)
+ *   replay   play back VITE_STT_REPLAY_URL line by line (demos and tests)
+ */
+export function createSttProvider(kind: SttProviderKind = (import.meta.env.VITE_STT_PROVIDER as SttProviderKind) || 'auto'): SttProvider {
+  switch (kind) {
+    case 'browser':
+      return createBrowserProvider();
+    case 'server':
+      return createServerProvider();
+    case 'replay':
+      return createReplayProvider({ url: import.meta.env.VITE_STT_REPLAY_URL || '/stt-replay.txt' });
+    default: {
+      const browser = createBrowserProvider();
+      return browser.isSupported() ? browser : createServerProvider();
+    }
+  }
+}
+
+/** Whether the backend has an STT engine, needed to transcribe other participants' audio tracks. */
+export async function serverSttAvailable(): Promise<boolean> {
+  try {
+    const res = await fetch('/api/stt/config');
+    if (!res.ok) return false;
+    const data = await res.json();
+    return !!data?.available;
+  } catch {
+    return false;
+  }
+}
+
+/** A provider that can transcribe a given MediaStreamTrack (the Web Speech API cannot). */
+export function createTrackSttProvider(): SttProvider {
+  return createServerProvider();
+}
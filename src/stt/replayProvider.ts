@@ -0,0 +1,73 @@
+import type { SttProvider, SttStartOptions } from './types';
+
+type ReplayLine = { delayMs: number; text: string };
+
+/**
+ * Parse a replay script: one utterance per line, optionally prefixed with the
+ * delay before it in milliseconds ("1500 start metformin 500 mg twice a day").
+ * Blank lines and lines starting with # are skipped.
+ */
+export function parseReplayScript(script: string, defaultDelayMs = 2000): ReplayLine[] {
+  return script
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => {
+      const m = line.match(/^(\d+)\s+(.*)$/);
+      return m ? { delayMs: Number(m[1]), text: m[2] } : { delayMs: defaultDelayMs, text: line };
+    });
+}
+
+/**
+ * Replays a scripted transcript instead of listening to a microphone, for demos and
+ * testing the detection pipeline without speaking. Pass the script directly or a URL
+ * (e.g. a file under public/) to fetch it from.
+ */
+export function createReplayProvider({ script, url }: { script?: string; url?: string }): SttProvider {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lines: ReplayLine[] | null = null;
+  let position = 0;
+
+  const clear = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    name: 'replay',
+    isSupported: () => !!(script || url),
+
+    async start({ onResult, onError }: SttStartOptions) {
+      clear();
+      try {
+        if (!lines) {
+          let text = script;
+          if (!text && url) {
+            const res = await fetch(url);
+            if (!res.ok) throw new Error(`Could not load replay script (${res.status})`);
+            text = await res.text();
+          }
+          lines = parseReplayScript(text || '');
+        }
+      } catch (e) {
+        onError(e instanceof Error ? e.message : 'Could not load replay script');
+        return;
+      }
+
+      // Resumes where a previous stop() left off
+      const next = () => {
+        if (!lines || position >= lines.length) return;
+        const line = lines[position];
+        const startTime = Date.now();
+        timer = setTimeout(() => {
+          position += 1;
+          onResult({ text: line.text, startTime, endTime: Date.now(), confidence: 1 });
+          next();
+        }, line.delayMs);
+      };
+      next();
+    },
+
+    stop: clear,
+  };
+}
@@ -0,0 +1,151 @@
+import type { SttProvider, SttStartOptions } from './types';
+
+const SEND_INTERVAL_MS = 500;
+
+/** Average-downsample Float32 audio to the server rate and convert to PCM16. */
+function toPcm16(input: Float32Array, inputRate: number, outputRate: number): Int16Array {
+  const ratio = inputRate / outputRate;
+  const length = Math.floor(input.length / ratio);
+  const out = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(input.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += input[j];
+    const sample = Math.max(-1, Math.min(1, sum / Math.max(1, end - start)));
+    out[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return out;
+}
+
+/**
+ * Streams the microphone track to the backend (/api/stt/sessions), which runs an
+ * offline engine such as Vosk or a whisper.cpp server. Works in any browser with
+ * Web Audio; needs STT_ENGINE configured on the server.
+ */
+export function createServerProvider(): SttProvider {
+  let sessionId: string | null = null;
+  let context: AudioContext | null = null;
+  let ownStream: MediaStream | null = null;
+  let flushTimer: ReturnType<typeof setInterval> | null = null;
+  let pending: Int16Array[] = [];
+  let sending: Promise<void> = Promise.resolve();
+  let handlers: SttStartOptions | null = null;
+  let starting = false;
+  let stopRequested = false;
+  let utteranceStart = Date.now();
+
+  // The server does not report timings; an utterance spans from the previous final result to now
+  const deliver = (results: Array<{ text: string; final: boolean; confidence?: number }> = []) => {
+    for (const r of results) {
+      if (!r.final || !r.text.trim()) continue;
+      const endTime = Date.now();
+      handlers?.onResult({ text: r.text.trim(), startTime: utteranceStart, endTime, confidence: r.confidence });
+      utteranceStart = endTime;
+    }
+  };
+
+  const flush = () => {
+    if (!sessionId || pending.length === 0) return;
+    const total = pending.reduce((n, c) => n + c.length, 0);
+    const chunk = new Int16Array(total);
+    let offset = 0;
+    for (const c of pending) {
+      chunk.set(c, offset);
+      offset += c.length;
+    }
+    pending = [];
+    const id = sessionId;
+    // Keep chunks in order: each upload waits for the previous one
+    sending = sending.then(async () => {
+      try {
+        const res = await fetch(`/api/stt/sessions/${id}/audio`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: chunk.buffer,
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || res.statusText);
+        deliver(data.results);
+      } catch (e) {
+        handlers?.onError(`STT: ${e instanceof Error ? e.message : 'upload failed'}`);
+      }
+    });
+  };
+
+  const teardown = () => {
+    if (flushTimer) clearInterval(flushTimer);
+    flushTimer = null;
+    context?.close().catch(() => {});
+    context = null;
+    ownStream?.getTracks().forEach((t) => t.stop());
+    ownStream = null;
+  };
+
+  return {
+    name: 'server',
+    isSupported: () => typeof AudioContext !== 'undefined' && typeof fetch !== 'undefined',
+
+    async start(options: SttStartOptions) {
+      handlers = options;
+      stopRequested = false;
+      if (sessionId || starting) return;
+      starting = true;
+      try {
+        const res = await fetch('/api/stt/sessions', { method: 'POST' });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || 'Could not start server speech recognition');
+        sessionId = data.sessionId as string;
+        const sampleRate = Number(data.sampleRate) || 16000;
+
+        let track = options.audioTrack;
+        if (!track) {
+          ownStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+          track = ownStream.getAudioTracks()[0];
+        }
+
+        context = new AudioContext();
+        const source = context.createMediaStreamSource(new MediaStream([track]));
+        // ScriptProcessorNode is deprecated but needs no separate worklet module
+        const processor = context.createScriptProcessor(4096, 1, 1);
+        const inputRate = context.sampleRate;
+        processor.onaudioprocess = (e) => {
+          pending.push(toPcm16(e.inputBuffer.getChannelData(0), inputRate, sampleRate));
+        };
+        source.connect(processor);
+        processor.connect(context.destination);
+        flushTimer = setInterval(flush, SEND_INTERVAL_MS);
+        utteranceStart = Date.now();
+      } catch (e) {
+        teardown();
+        sessionId = null;
+        options.onError(e instanceof Error ? e.message : 'Could not start server speech recognition');
+      } finally {
+        starting = false;
+      }
+      // stop() was called while the session was being set up
+      if (stopRequested) this.stop();
+    },
+
+    stop() {
+      if (starting) {
+        stopRequested = true;
+        return;
+      }
+      flush();
+      teardown();
+      const id = sessionId;
+      sessionId = null;
+      if (!id) return;
+      // Final words still buffered on the server come back when the session closes
+      sending = sending.then(async () => {
+        try {
+          const res = await fetch(`/api/stt/sessions/${id}`, { method: 'DELETE' });
+          if (res.ok) deliver((await res.json()).results);
+        } catch {
+          /* session expires on its own */
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,26 @@
+/** Final transcript of one utterance. */
+export interface SttResult {
+  text: string;
+  startTime: number; // Epoch ms when the utterance began (approximate for some providers)
+  endTime: number;
+  confidence?: number; // 0..1 when the engine reports it
+}
+
+/** Options passed when a provider starts listening. */
+export interface SttStartOptions {
+  /** Microphone track to transcribe (e.g. the LiveKit local mic). Providers may open their own if absent. */
+  audioTrack?: MediaStreamTrack;
+  onResult: (result: SttResult) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * A speech-to-text backend. start() may be called again after stop();
+ * implementations keep listening until stop() (restarting internally if needed).
+ */
+export interface SttProvider {
+  readonly name: string;
+  isSupported(): boolean;
+  start(options: SttStartOptions): Promise<void>;
+  stop(): void;
+}
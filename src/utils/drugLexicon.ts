@@ -0,0 +1,28 @@
+import lexiconText from '../../shared/drug-lexicon.txt?raw';
+import { parseLexicon } from '../../shared/drugLexicon.js';
+import { matchDrugs, type DrugCandidate } from '../../shared/fuzzyMatch.js';
+import type { TranscriptEntity } from '../contexts/SessionContext';
+
+export { AUTO_ACCEPT_SCORE, SUGGEST_SCORE, type DrugCandidate } from '../../shared/fuzzyMatch.js';
+
+/** The bundled lexicon (the same file the server's PDF extractor reads). */
+export const drugLexicon = parseLexicon(lexiconText);
+
+/** "ibuprofen" → "Ibuprofen", "insulin glargine" → "Insulin glargine" (how drugs are shown in the call UI). */
+export function displayDrugName(generic: string): string {
+  return generic.charAt(0).toUpperCase() + generic.slice(1);
+}
+
+/**
+ * All drugs named in a transcript, mapped to their canonical generic. Includes
+ * fuzzy/phonetic candidates for misheard names, each with a confidence score.
+ */
+export function detectDrugs(transcript: string): DrugCandidate[] {
+  if (!transcript || transcript.length < 3) return [];
+  return matchDrugs(drugLexicon, transcript);
+}
+
+/** Drug candidates as transcript entities, for tagging a transcript segment. */
+export function toDrugEntities(matches: DrugCandidate[]): TranscriptEntity[] {
+  return matches.map((m) => ({ type: 'drug', value: displayDrugName(m.generic), text: m.matched, score: m.score }));
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { classifyIntent } from './intentClassifier';
+
+describe('classifyIntent', () => {
+  it.each([
+    ['Start lisinopril and stop taking ibuprofen', 'lisinopril', 'prescribe'],
+    ['Start lisinopril and stop taking ibuprofen', 'ibuprofen', 'discontinue'],
+    ['continue metformin but stop glipizide', 'metformin', 'continue'],
+    ['continue metformin but stop glipizide', 'glipizide', 'discontinue'],
+    ["I'll prescribe amoxicillin, and stop the ibuprofen", 'amoxicillin', 'prescribe'],
+    ["I'll prescribe amoxicillin, and stop the ibuprofen", 'ibuprofen', 'discontinue'],
+    ['Increase the lisinopril, then refill the atorvastatin', 'lisinopril', 'dose_change'],
+    ['Increase the lisinopril, then refill the atorvastatin', 'atorvastatin', 'continue'],
+  ])('%s → %s: %s', (utterance, drug, intent) => {
+    expect(classifyIntent(utterance, drug)).toBe(intent);
+  });
+
+  it('gives a bare drug in a list the cue of the clause before it', () => {
+    expect(classifyIntent('Start lisinopril and metformin', 'metformin')).toBe('prescribe');
+    expect(classifyIntent('Stop the ibuprofen, naproxen and aspirin', 'aspirin')).toBe('discontinue');
+  });
+
+  it('does not apply a cue that is far from the drug', () => {
+    expect(classifyIntent('We talked about how you should start walking every day after lunch with aspirin', 'aspirin')).toBe(
+      'mention',
+    );
+  });
+
+  describe('negation', () => {
+    it.each([
+      ["I'm not going to prescribe ibuprofen", 'ibuprofen'],
+      ["I won't start you on metformin", 'metformin'],
+      ["Let's not add lisinopril yet", 'lisinopril'],
+    ])('%s is not a prescription', (utterance, drug) => {
+      expect(classifyIntent(utterance, drug)).toBe('mention');
+    });
+
+    it('treats a negated stop as carrying on', () => {
+      expect(classifyIntent("Don't stop the metformin", 'metformin')).toBe('continue');
+      expect(classifyIntent("We won't discontinue your lisinopril", 'lisinopril')).toBe('continue');
+    });
+
+    it('keeps "don\'t take" as a discontinuation', () => {
+      expect(classifyIntent("Don't take ibuprofen with this", 'ibuprofen')).toBe('discontinue');
+    });
+  });
+
+  describe('questions', () => {
+    it('never treats a question as a prescription', () => {
+      expect(classifyIntent('Have you taken ibuprofen before?', 'ibuprofen')).toBe('question');
+      expect(classifyIntent('Are you taking aspirin, ibuprofen or naproxen', 'naproxen')).toBe('question');
+      expect(classifyIntent('Have you tried ibuprofen and naproxen', 'naproxen')).toBe('question');
+    });
+
+    it('keeps a question about another drug out of the prescription', () => {
+      expect(classifyIntent('Start amoxicillin. Have you ever taken penicillin?', 'amoxicillin')).toBe('prescribe');
+    });
+  });
+
+  it('reads a switch as stopping one drug and starting the other', () => {
+    expect(classifyIntent("I'm switching you from lisinopril to losartan", 'lisinopril')).toBe('discontinue');
+    expect(classifyIntent("I'm switching you from lisinopril to losartan", 'losartan')).toBe('prescribe');
+  });
+
+  it('falls back to the whole utterance when the drug is not in it', () => {
+    expect(classifyIntent('Stop taking it', 'ibuprofen')).toBe('discontinue');
+    expect(classifyIntent('We discussed your blood pressure', 'lisinopril')).toBe('mention');
+  });
+});
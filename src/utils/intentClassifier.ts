@@ -0,0 +1,101 @@
+/**
+ * Rule-based intent classification for drug mentions in the doctor's speech.
+ * Decides whether "ibuprofen" in an utterance is a new prescription, a discontinuation,
+ * a continuation, a dose change, or just a question / history remark.
+ */
+
+export type MedicationIntent = 'prescribe' | 'discontinue' | 'continue' | 'dose_change' | 'question' | 'mention';
+
+/** Intents that change what the patient will be taking after the visit. */
+export const CHANGE_INTENTS: MedicationIntent[] = ['prescribe', 'discontinue', 'continue', 'dose_change'];
+
+const QUESTION_CUES =
+  /^(?:so |and |okay |ok )?(?:have|has|are|were|is|do|did|does|was|can|could|when|how)\b|\b(?:have you|are you|do you|did you|were you|ever (?:been|taken|tried|used)|any (?:history|allergy|allergies|reaction)|allergic to|history of|in the past|previously|used to take|you(?:'ve| have) been (?:on|taking)|you(?:'re| are) (?:on|taking)|your (?:current|other) (?:meds|medications))\b/;
+// Cue patterns are global so every occurrence can be checked for negation
+const DISCONTINUE_CUES =
+  /\b(?:stop(?:ping)?|discontinu(?:e|ing)|quit|cease|come off|coming off|get off|taper off|hold (?:off on|off|the)|no longer|don't take|do not take|shouldn't take|should not take|avoid|cut out)\b/g;
+const DOSE_CHANGE_CUES =
+  /\b(?:increas(?:e|ing)|decreas(?:e|ing)|rais(?:e|ing)|lower(?:ing)?|reduc(?:e|ing)|bump(?:ing)? (?:up|down)|up the dose|cut back|double|halve|titrat(?:e|ing)|change (?:the|your) dose|adjust(?:ing)? (?:the|your) dose|go up to|go down to)\b/g;
+const CONTINUE_CUES =
+  /\b(?:continu(?:e|ing)|keep (?:taking|on|using)|stay on|carry on with|remain on|refill|renew|same dose)\b/g;
+const PRESCRIBE_CUES =
+  /\b(?:start(?:ing)?|prescrib(?:e|ing)|begin|put you on|putting you on|add(?:ing)?|give you|giving you|i(?:'d| would) like you to (?:take|try|use)|try|take|use|send (?:in )?a prescription|new prescription|write (?:you )?(?:a|for))\b/g;
+/** Strongest first: "stop" outranks "take" ("stop taking ibuprofen"). */
+const CUES: Array<[MedicationIntent, RegExp]> = [
+  ['discontinue', DISCONTINUE_CUES],
+  ['dose_change', DOSE_CHANGE_CUES],
+  ['continue', CONTINUE_CUES],
+  ['prescribe', PRESCRIBE_CUES],
+];
+/** A negation up to two words before a cue: "not going to prescribe", "don't stop", "won't start". */
+const NEGATED_RE = /\b(?:not|never|don't|do not|won't|will not|no need to)(?:\s+\S+){0,2}\s*$/;
+const SWITCH_RE = /\bswitch(?:ing)? (?:you )?(?:from )?([a-z][a-z-]+)(?: over)? to ([a-z][a-z-]+)/;
+/** Clause boundaries inside a sentence: commas and the conjunctions that start a new instruction. */
+const CLAUSE_SPLIT_RE = /,|\b(?:and|but|then)\b/;
+/** How far from the drug mention a cue may sit and still apply to it. */
+const CUE_WORDS_BEFORE = 6;
+const CUE_WORDS_AFTER = 3;
+
+/** The sentence of the utterance that contains the drug (falls back to the whole utterance). */
+function sentenceFor(utterance: string, drug: string): string {
+  const lower = utterance.toLowerCase();
+  const sentences = lower.match(/[^.!?;]+[.!?;]?/g) || [lower];
+  return (sentences.find((s) => s.includes(drug)) || lower).trim();
+}
+
+/** The words around the drug mention in its clause, so cues for a neighbouring drug do not leak in. */
+function cueWindow(clause: string, drug: string): string {
+  const at = clause.indexOf(drug);
+  if (at < 0) return clause;
+  const words = (text: string) => text.split(/\s+/).filter(Boolean);
+  const before = words(clause.slice(0, at)).slice(-CUE_WORDS_BEFORE);
+  const after = words(clause.slice(at + drug.length)).slice(0, CUE_WORDS_AFTER);
+  return [...before, drug, ...after].join(' ');
+}
+
+/**
+ * The intent the cues in `text` express, or null when there is none. A negated
+ * "stop" means the drug carries on; any other negated cue ("not going to prescribe")
+ * only leaves a mention.
+ */
+function cueIntent(text: string): MedicationIntent | null {
+  let negated: MedicationIntent | null = null;
+  for (const [intent, cues] of CUES) {
+    for (const match of text.matchAll(cues)) {
+      if (!NEGATED_RE.test(text.slice(0, match.index))) return intent;
+      negated ??= intent === 'discontinue' ? 'continue' : 'mention';
+    }
+  }
+  return negated;
+}
+
+/**
+ * Classify what the speaker intends for `drug` in `utterance`. Stronger cues win:
+ * a question is never a prescription, and "stop" outranks "take" ("stop taking ibuprofen").
+ * Each drug is judged by the cues in its own clause, so "start lisinopril and stop
+ * ibuprofen" starts one and stops the other; a bare drug in a list ("start lisinopril
+ * and metformin") takes the cue of the clause before it.
+ */
+export function classifyIntent(utterance: string, drug: string): MedicationIntent {
+  const name = drug.toLowerCase();
+  const sentence = sentenceFor(utterance || '', name);
+
+  // "switch from lisinopril to losartan": the first drug is stopped, the second started
+  const sw = sentence.match(SWITCH_RE);
+  if (sw) {
+    if (sw[1] === name) return 'discontinue';
+    if (sw[2] === name) return 'prescribe';
+  }
+
+  if (sentence.endsWith('?')) return 'question';
+  const clauses = sentence.split(CLAUSE_SPLIT_RE).map((c) => c.trim());
+  const at = clauses.findIndex((c) => c.includes(name));
+  if (at < 0) return QUESTION_CUES.test(sentence) ? 'question' : (cueIntent(sentence) ?? 'mention');
+
+  for (let i = at; i >= 0; i--) {
+    if (QUESTION_CUES.test(clauses[i])) return 'question';
+    const intent = cueIntent(i === at ? cueWindow(clauses[i], name) : clauses[i]);
+    if (intent) return intent;
+  }
+  return 'mention';
+}
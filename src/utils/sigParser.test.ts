@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { formatDosage, formatDuration, normalizeSpokenNumbers, parseSig } from './sigParser';
+
+describe('normalizeSpokenNumbers', () => {
+  it.each([
+    ['five hundred milligrams', '500 milligrams'],
+    ['five hundred and fifty', '550'],
+    ['one and a half tablets', '1.5 tablets'],
+    ['two point five mg', '2.5 mg'],
+    ['point five mg', '0.5 mg'],
+    ['a hundred units', '100 units'],
+    ['half a tablet', '0.5 tablet'],
+    ['half an hour', '0.5 hour'],
+    ['take a half tablet', 'take 0.5 tablet'],
+    ['twenty-five mg', '25 mg'],
+  ])('%s → %s', (spoken, expected) => {
+    expect(normalizeSpokenNumbers(spoken)).toBe(expected);
+  });
+
+  it('leaves other words alone', () => {
+    expect(normalizeSpokenNumbers('take it with food')).toBe('take it with food');
+  });
+});
+
+describe('parseSig', () => {
+  it('parses strength, frequency and duration', () => {
+    const sig = parseSig('start metformin five hundred milligrams twice a day for three months', 'metformin');
+    expect(sig).toMatchObject({
+      strength: 500,
+      unit: 'mg',
+      frequency: { code: 'BID', timesPerDay: 2 },
+      duration: { value: 3, unit: 'month', days: 90 },
+      prn: false,
+    });
+  });
+
+  it('keeps the strength of "half a tablet"', () => {
+    const sig = parseSig('take half a tablet of metoprolol every morning', 'metoprolol');
+    expect(sig.strength).toBe(0.5);
+    expect(sig.unit).toBe('tablet');
+    expect(sig.frequency?.code).toBe('QAM');
+  });
+
+  it('prefers a mass unit over a tablet count', () => {
+    const sig = parseSig('ibuprofen two tablets of 200 mg every 6 hours as needed for pain', 'ibuprofen');
+    expect(sig).toMatchObject({ strength: 200, unit: 'mg', prn: true, prnReason: 'pain' });
+    expect(sig.frequency).toMatchObject({ code: 'Q6H', timesPerDay: 4 });
+  });
+
+  it('takes a strength said before the drug name', () => {
+    expect(parseSig('two tablets of ibuprofen', 'ibuprofen')).toMatchObject({ strength: 2, unit: 'tablet' });
+  });
+
+  it('ignores dosing said about an earlier drug', () => {
+    const sig = parseSig('lisinopril daily and also start atorvastatin at bedtime', 'atorvastatin');
+    expect(sig.frequency?.code).toBe('QHS');
+  });
+
+  it('reads route and refills', () => {
+    expect(parseSig('albuterol two puffs inhaled as needed, 3 refills', 'albuterol')).toMatchObject({
+      route: 'inhalation',
+      prn: true,
+      refills: 3,
+    });
+    expect(parseSig('amoxicillin 500 mg by mouth no refills', 'amoxicillin')).toMatchObject({ route: 'oral', refills: 0 });
+  });
+});
+
+describe('formatDosage / formatDuration', () => {
+  it('formats a parsed sig', () => {
+    const sig = parseSig('naproxen 500 mg by mouth twice a day as needed for pain for 10 days', 'naproxen');
+    expect(formatDosage(sig)).toBe('500 mg, oral, twice a day, as needed for pain');
+    expect(formatDuration(sig)).toBe('10 days');
+  });
+
+  it('pluralizes tablet counts', () => {
+    expect(formatDosage({ strength: 2, unit: 'tablet', prn: false })).toBe('2 tablets');
+    expect(formatDosage({ prn: false })).toBeUndefined();
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Prescription "sig" parser for spoken instructions.
+ * Turns an utterance like "start metformin 500 milligrams twice a day for three months"
+ * into structured fields (strength, unit, route, frequency, PRN, duration, refills).
+ * Spoken numbers ("five hundred", "one and a half") are converted before matching.
+ */
+
+export type SigRoute =
+  | 'oral'
+  | 'sublingual'
+  | 'topical'
+  | 'inhalation'
+  | 'nasal'
+  | 'ophthalmic'
+  | 'otic'
+  | 'rectal'
+  | 'subcutaneous'
+  | 'intramuscular'
+  | 'intravenous'
+  | 'transdermal';
+
+export interface SigFrequency {
+  code: string; // e.g. QD, BID, TID, QID, QHS, QOD, Q6H, QWEEK
+  timesPerDay?: number; // Omitted for schedules that are not a whole number per day (weekly, every other day)
+  text: string; // Human-readable form, e.g. "twice a day"
+}
+
+export interface SigDuration {
+  value: number;
+  unit: 'day' | 'week' | 'month';
+  days: number;
+}
+
+export interface ParsedSig {
+  strength?: number;
+  unit?: string;
+  route?: SigRoute;
+  frequency?: SigFrequency;
+  prn: boolean;
+  prnReason?: string;
+  duration?: SigDuration;
+  refills?: number;
+}
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const isNumberWord = (w: string) => w in SMALL_NUMBERS || w in TENS || w === 'hundred' || w === 'thousand';
+
+/**
+ * Replace spoken numbers with digits: "five hundred" → "500", "one and a half" → "1.5",
+ * "point five" → "0.5", "half a tablet" → "0.5 tablet". Other words are left untouched.
+ */
+export function normalizeSpokenNumbers(text: string): string {
+  const words = text.toLowerCase().replace(/(\w)-(\w)/g, '$1 $2').split(/\s+/).filter(Boolean);
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < words.length) {
+    const w = words[i];
+    const next = words[i + 1];
+
+    // "a half" on its own
+    if (w === 'a' && next === 'half') {
+      out.push('0.5');
+      i += 2;
+      continue;
+    }
+    // "half a tablet": drop the article so the dose reads "0.5 tablet"
+    if (w === 'half') {
+      out.push('0.5');
+      i += next === 'a' || next === 'an' ? 2 : 1;
+      continue;
+    }
+
+    // "a hundred" / "a thousand"
+    const startsWithA = w === 'a' && (next === 'hundred' || next === 'thousand');
+    if (!isNumberWord(w) && !startsWithA && !(w === 'point' && next && next in SMALL_NUMBERS)) {
+      out.push(w);
+      i++;
+      continue;
+    }
+
+    let total = 0;
+    let current = 0;
+    let matched = false;
+    if (startsWithA) {
+      current = 1;
+      i++;
+    }
+
+    while (i < words.length) {
+      const t = words[i];
+      if (t in SMALL_NUMBERS) current += SMALL_NUMBERS[t];
+      else if (t in TENS) current += TENS[t];
+      else if (t === 'hundred') current = (current || 1) * 100;
+      else if (t === 'thousand') {
+        total += (current || 1) * 1000;
+        current = 0;
+      } else if (t === 'and' && words[i + 1] && isNumberWord(words[i + 1])) {
+        // "five hundred and fifty"
+      } else break;
+      matched = true;
+      i++;
+    }
+
+    let value = total + current;
+    let decimals = '';
+
+    // "one and a half"
+    if (words[i] === 'and' && words[i + 1] === 'a' && words[i + 2] === 'half') {
+      value += 0.5;
+      i += 3;
+    } else if (words[i] === 'point') {
+      // "point five", "two point five"
+      let j = i + 1;
+      while (j < words.length && words[j] in SMALL_NUMBERS && SMALL_NUMBERS[words[j]] < 10) {
+        decimals += String(SMALL_NUMBERS[words[j]]);
+        j++;
+      }
+      if (decimals) i = j;
+    }
+
+    if (!matched && !decimals) {
+      out.push(words[i] ?? '');
+      i++;
+      continue;
+    }
+    out.push(decimals ? `${value}.${decimals}` : String(value));
+  }
+
+  return out.join(' ');
+}
+
+const UNIT_ALIASES: Array<[RegExp, string]> = [
+  [/^(mg|milligrams?|milligram)$/, 'mg'],
+  [/^(mcg|micrograms?|µg)$/, 'mcg'],
+  [/^(g|grams?)$/, 'g'],
+  [/^(ml|milliliters?|millilitres?|mls)$/, 'mL'],
+  [/^(units?|iu)$/, 'units'],
+  [/^(tablets?|tabs?|pills?)$/, 'tablet'],
+  [/^(capsules?|caps?)$/, 'capsule'],
+  [/^(puffs?|inhalations?)$/, 'puff'],
+  [/^(drops?)$/, 'drop'],
+  [/^(patch|patches)$/, 'patch'],
+];
+
+// Mass/volume units describe strength better than a count of tablets, so prefer them.
+const STRENGTH_UNITS = new Set(['mg', 'mcg', 'g', 'mL', 'units']);
+
+const STRENGTH_RE =
+  /(\d+(?:\.\d+)?)\s*(milligrams?|mg|micrograms?|mcg|µg|grams?|g|milliliters?|millilitres?|mls?|units?|iu|tablets?|tabs?|pills?|capsules?|caps?|puffs?|inhalations?|drops?|patch(?:es)?)\b/g;
+
+const ROUTES: Array<[RegExp, SigRoute]> = [
+  [/\b(under the tongue|sublingual(?:ly)?)\b/, 'sublingual'],
+  [/\b(by mouth|orally|oral|p\.?o\.?|swallow)\b/, 'oral'],
+  [/\b(subcutaneous(?:ly)?|under the skin|sub ?q)\b/, 'subcutaneous'],
+  [/\b(intramuscular(?:ly)?|into the muscle|i\.?m\.?)\b/, 'intramuscular'],
+  [/\b(intravenous(?:ly)?|i\.?v\.?|drip)\b/, 'intravenous'],
+  [/\b(inhal(?:e|ed|er|ation)|puffs?|nebuli[sz]er)\b/, 'inhalation'],
+  [/\b(nasal(?:ly)?|in (?:each|the) nostril|nose spray)\b/, 'nasal'],
+  [/\b(eye drops?|in (?:each|the|both) eyes?|ophthalmic)\b/, 'ophthalmic'],
+  [/\b(ear drops?|in (?:each|the|both) ears?|otic)\b/, 'otic'],
+  [/\b(rectal(?:ly)?|suppositor(?:y|ies))\b/, 'rectal'],
+  [/\b(patch|transdermal)\b/, 'transdermal'],
+  [/\b(topical(?:ly)?|apply|cream|ointment|on the skin)\b/, 'topical'],
+];
+
+const FREQUENCIES: Array<[RegExp, Omit<SigFrequency, 'text'>, string]> = [
+  [/\b(every other day|alternate days)\b/, { code: 'QOD' }, 'every other day'],
+  [/\b(once a week|once weekly|weekly|every week)\b/, { code: 'QWEEK' }, 'once a week'],
+  [/\b(four times (?:a|per|each) day|four times daily|q\.?i\.?d\.?)\b/, { code: 'QID', timesPerDay: 4 }, 'four times a day'],
+  [/\b(three times (?:a|per|each) day|three times daily|t\.?i\.?d\.?)\b/, { code: 'TID', timesPerDay: 3 }, 'three times a day'],
+  [/\b(twice (?:a|per|each) day|twice daily|two times (?:a|per|each) day|two times daily|b\.?i\.?d\.?)\b/, { code: 'BID', timesPerDay: 2 }, 'twice a day'],
+  [/\b(at bedtime|before bed|at night|nightly|every night|q\.?h\.?s\.?)\b/, { code: 'QHS', timesPerDay: 1 }, 'at bedtime'],
+  [/\b(every morning|in the morning|each morning)\b/, { code: 'QAM', timesPerDay: 1 }, 'every morning'],
+  [/\b(once (?:a|per|each) day|once daily|daily|every day|each day|q\.?d\.?)\b/, { code: 'QD', timesPerDay: 1 }, 'once a day'],
+];
+
+/** Schedules offered when the doctor edits a detected prescription. */
+export const FREQUENCY_OPTIONS: SigFrequency[] = [
+  ...FREQUENCIES.map(([, freq, text]) => ({ ...freq, text })).reverse(),
+  ...[4, 6, 8, 12].map((hours) => ({ code: `Q${hours}H`, timesPerDay: 24 / hours, text: `every ${hours} hours` })),
+];
+
+const PRN_RE = /\b(as needed|as required|when needed|if needed|when required|p\.?r\.?n\.?)\b(?:\s+for\s+([a-z ]+?))?(?=$|[,.;]|\s+(?:for \d+|up to|every|no more|and)\b)/;
+
+const DURATION_RE = /\bfor\s+(?:the next\s+)?(\d+(?:\.\d+)?|a|an|one)\s+(days?|weeks?|months?)\b/;
+const DURATION_DAYS = { day: 1, week: 7, month: 30 } as const;
+
+const REFILLS_RE = /\b(\d+)\s+refills?\b|\brefills?\s*(?:of|x|times|:)?\s*(\d+)\b|\brefill (?:it )?(\d+) times\b/;
+const NO_REFILLS_RE = /\b(no refills?|zero refills?|without refills?)\b/;
+
+/** First strength in the text, preferring a mass/volume unit over a tablet count. */
+function findStrength(text: string): { value: number; unit: string } | null {
+  let fallback: { value: number; unit: string } | null = null;
+  for (const m of text.matchAll(STRENGTH_RE)) {
+    const unit = UNIT_ALIASES.find(([re]) => re.test(m[2]))?.[1];
+    if (!unit) continue;
+    const value = parseFloat(m[1]);
+    if (STRENGTH_UNITS.has(unit)) return { value, unit };
+    if (!fallback) fallback = { value, unit };
+  }
+  return fallback;
+}
+
+/**
+ * Parse a spoken prescription. When `drug` is given and appears in the utterance,
+ * only the text from the drug name onwards is considered, so dosing said about an
+ * earlier drug in the same sentence is not attributed to this one. The one exception
+ * is strength, which is often said first ("two tablets of ibuprofen").
+ */
+export function parseSig(utterance: string, drug?: string): ParsedSig {
+  let text = normalizeSpokenNumbers(utterance || '');
+  let before = '';
+  if (drug) {
+    const idx = text.indexOf(drug.toLowerCase());
+    if (idx >= 0) {
+      before = text.slice(0, idx);
+      text = text.slice(idx + drug.length);
+    }
+  }
+
+  const sig: ParsedSig = { prn: false };
+
+  const strength = findStrength(text) ?? findStrength(before);
+  if (strength) {
+    sig.strength = strength.value;
+    sig.unit = strength.unit;
+  }
+
+  const route = ROUTES.find(([re]) => re.test(text));
+  if (route) sig.route = route[1];
+
+  const every = text.match(/\bevery (\d+(?:\.\d+)?) (?:to \d+ )?hours?\b/);
+  if (every) {
+    const hours = parseFloat(every[1]);
+    sig.frequency = {
+      code: `Q${hours}H`,
+      timesPerDay: hours > 0 && 24 % hours === 0 ? 24 / hours : undefined,
+      text: `every ${hours} hours`,
+    };
+  } else {
+    const freq = FREQUENCIES.find(([re]) => re.test(text));
+    if (freq) sig.frequency = { ...freq[1], text: freq[2] };
+  }
+
+  const prn = text.match(PRN_RE);
+  if (prn) {
+    sig.prn = true;
+    if (prn[2]) sig.prnReason = prn[2].trim();
+  }
+
+  const duration = text.match(DURATION_RE);
+  if (duration) {
+    const value = /^\d/.test(duration[1]) ? parseFloat(duration[1]) : 1;
+    const unit = duration[2].replace(/s$/, '') as SigDuration['unit'];
+    sig.duration = { value, unit, days: Math.round(value * DURATION_DAYS[unit]) };
+  }
+
+  if (NO_REFILLS_RE.test(text)) {
+    sig.refills = 0;
+  } else {
+    const refills = text.match(REFILLS_RE);
+    if (refills) sig.refills = parseInt(refills[1] ?? refills[2] ?? refills[3], 10);
+  }
+
+  return sig;
+}
+
+/** "500 mg by mouth twice a day as needed for pain" — used for Prescription.dosage. */
+export function formatDosage(sig: ParsedSig): string | undefined {
+  const parts: string[] = [];
+  if (sig.strength !== undefined && sig.unit) {
+    const plural = sig.strength !== 1 && !STRENGTH_UNITS.has(sig.unit) ? (sig.unit === 'patch' ? 'es' : 's') : '';
+    parts.push(`${sig.strength} ${sig.unit}${plural}`);
+  }
+  if (sig.route) parts.push(sig.route);
+  if (sig.frequency) parts.push(sig.frequency.text);
+  if (sig.prn) parts.push(sig.prnReason ? `as needed for ${sig.prnReason}` : 'as needed');
+  return parts.length ? parts.join(', ') : undefined;
+}
+
+/** "3 months" — used for Prescription.duration. */
+export function formatDuration(sig: ParsedSig): string | undefined {
+  if (!sig.duration) return undefined;
+  const { value, unit } = sig.duration;
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
@@ -12,6 +12,7 @@ export default defineConfig({
       '/post-visit-safety-check': 'http://localhost:3001',
       '/visit-summary': 'http://localhost:3001',
       '/summarize-transcript': 'http://localhost:3001',
+      '/api/vision/ws': { target: 'ws://localhost:3001', ws: true },
       '/api': 'http://localhost:3001',
       '/health': 'http://localhost:3001',
     },